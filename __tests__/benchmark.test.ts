@@ -1,14 +1,37 @@
 /**
  * Performance benchmarks for temp-email-guard
- * Tests lookup speed with multiple domains
+ * Tests lookup speed with multiple domains, startup time per data format and heap size per lookup structure
  */
 
+import { readFileSync } from 'fs';
+import { join } from 'path';
 import {
   initialize,
   isTempEmail,
   validateEmail,
   getTempEmailDomains,
 } from '../src/index';
+import { decodeSnapshot } from '../src/data/snapshot';
+import { DomainTrie } from '../src/utils/trie';
+import { FrozenDomainTrie } from '../src/utils/frozen-trie';
+
+const dataDir = join(__dirname, '../data');
+
+/**
+ * Build the lookup structures from a bundled data file, measuring time and retained heap
+ * Heap numbers are only exact when node runs with --expose-gc
+ */
+function measureStartup(build: () => unknown): { ms: number; heapMb: number; result: unknown } {
+  const gc = (global as { gc?: () => void }).gc;
+  gc?.();
+  const heapBefore = process.memoryUsage().heapUsed;
+  const start = performance.now();
+  const result = build();
+  const ms = performance.now() - start;
+  gc?.();
+  const heapMb = (process.memoryUsage().heapUsed - heapBefore) / 1024 / 1024;
+  return { ms, heapMb, result };
+}
 
 describe('Performance Benchmarks', () => {
   beforeAll(async () => {
@@ -244,5 +267,49 @@ describe('Performance Benchmarks', () => {
       expect(avgTime).toBeLessThan(0.2); // Subdomain matching is slightly slower
     });
   });
-});
 
+  describe('Startup Performance', () => {
+    it('should measure startup time and heap for the JSON list and the binary snapshot', () => {
+      const jsonPath = join(dataDir, 'all-domains.json');
+      const snapshotPath = join(dataDir, 'all-domains.bin');
+
+      const json = measureStartup(() => {
+        const domains: string[] = JSON.parse(readFileSync(jsonPath, 'utf-8'));
+        return { trie: FrozenDomainTrie.fromDomains(domains), domains };
+      });
+      const snapshot = measureStartup(() => decodeSnapshot(readFileSync(snapshotPath)));
+
+      const jsonSize = readFileSync(jsonPath).length;
+      const snapshotSize = readFileSync(snapshotPath).length;
+
+      console.log(`\n📊 Startup Benchmark:`);
+      console.log(`   JSON list:       ${json.ms.toFixed(0)}ms, ~${json.heapMb.toFixed(1)} MB heap, ${(jsonSize / 1024 / 1024).toFixed(1)} MB file`);
+      console.log(`   Binary snapshot: ${snapshot.ms.toFixed(0)}ms, ~${snapshot.heapMb.toFixed(1)} MB heap, ${(snapshotSize / 1024 / 1024).toFixed(1)} MB file`);
+
+      expect(snapshotSize).toBeLessThan(jsonSize);
+      expect((snapshot.result as { domains: string[] }).domains).toEqual((json.result as { domains: string[] }).domains);
+      // Generous bound, startup should take well under a second on typical hardware
+      expect(snapshot.ms).toBeLessThan(5000);
+    });
+  });
+
+  describe('Memory', () => {
+    it('should measure heap for a Set plus Map-based trie and for the frozen trie', () => {
+      const domains = getTempEmailDomains();
+      const mapTrie = measureStartup(() => ({ set: new Set(domains), trie: DomainTrie.fromDomains(domains) }));
+      const frozen = measureStartup(() => FrozenDomainTrie.fromDomains(domains));
+      const trie = frozen.result as FrozenDomainTrie;
+
+      console.log(`\n📊 Memory Benchmark (${domains.length} domains, ${trie.nodeCount} trie nodes):`);
+      console.log(`   Set + Map trie: ~${mapTrie.heapMb.toFixed(1)} MB heap, built in ${mapTrie.ms.toFixed(0)}ms`);
+      console.log(`   Frozen trie:    ~${frozen.heapMb.toFixed(1)} MB heap, built in ${frozen.ms.toFixed(0)}ms`);
+
+      expect(trie.size).toBe(domains.length);
+      expect(domains.every((domain) => trie.has(domain))).toBe(true);
+      // Heap numbers are only reliable with forced garbage collection
+      if ((global as { gc?: () => void }).gc) {
+        expect(frozen.heapMb).toBeLessThan(mapTrie.heapMb / 4);
+      }
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for address canonicalization
+ */
+
+import { canonicalizeEmail } from '../src/utils/canonicalize';
+import { createGuard } from '../src/guard';
+
+describe('canonicalizeEmail', () => {
+  it('should apply Gmail rules', () => {
+    expect(canonicalizeEmail('user+1@gmail.com')).toBe('user@gmail.com');
+    expect(canonicalizeEmail('u.s.e.r@gmail.com')).toBe('user@gmail.com');
+    expect(canonicalizeEmail('U.S.E.R+promo@GoogleMail.com')).toBe('user@gmail.com');
+  });
+
+  it('should keep dots for providers that treat them as significant', () => {
+    expect(canonicalizeEmail('first.last+news@outlook.com')).toBe('first.last@outlook.com');
+  });
+
+  it('should use the provider tag separator', () => {
+    expect(canonicalizeEmail('base-shopping@yahoo.com')).toBe('base@yahoo.com');
+    expect(canonicalizeEmail('first+last@yahoo.com')).toBe('first+last@yahoo.com');
+  });
+
+  it('should map domain aliases to the canonical domain', () => {
+    expect(canonicalizeEmail('user@me.com')).toBe('user@icloud.com');
+    expect(canonicalizeEmail('user+x@pm.me')).toBe('user@proton.me');
+  });
+
+  it('should strip plus tags for unknown domains by default', () => {
+    expect(canonicalizeEmail('User+tag@Example.com')).toBe('user@example.com');
+    expect(canonicalizeEmail('+admin@example.com')).toBe('+admin@example.com');
+  });
+
+  it('should keep quoted local parts as written', () => {
+    expect(canonicalizeEmail('"John+Doe"@example.com')).toBe('"John+Doe"@example.com');
+  });
+
+  it('should normalize IDN domains', () => {
+    expect(canonicalizeEmail('user@Bücher.de')).toBe('user@xn--bcher-kva.de');
+  });
+
+  it('should return null for invalid addresses', () => {
+    expect(canonicalizeEmail('not-an-email')).toBeNull();
+    expect(canonicalizeEmail('')).toBeNull();
+    expect(canonicalizeEmail(null as unknown as string)).toBeNull();
+  });
+
+  it('should apply custom provider rules', () => {
+    const options = {
+      providers: [{ domains: ['corp.example', 'corp-mail.example'], stripDots: true, tagSeparator: '_' }],
+      defaultRule: { tagSeparator: null },
+    };
+    expect(canonicalizeEmail('j.doe_test@corp-mail.example', options)).toBe('jdoe@corp.example');
+    expect(canonicalizeEmail('user+tag@example.com', options)).toBe('user+tag@example.com');
+    expect(canonicalizeEmail('u.ser+1@gmail.com', options)).toBe('user@gmail.com');
+  });
+
+  it('should let custom rules replace built-in ones', () => {
+    const options = { providers: [{ domains: ['gmail.com'], tagSeparator: '+' }] };
+    expect(canonicalizeEmail('u.ser+1@gmail.com', options)).toBe('u.ser@gmail.com');
+  });
+});
+
+describe('EmailGuard canonicalization', () => {
+  const guard = createGuard({ domains: ['tempmail.com'], canonical: { defaultRule: { tagSeparator: null } } });
+
+  it('should use the guard options', () => {
+    expect(guard.canonicalizeEmail('user+tag@example.com')).toBe('user+tag@example.com');
+  });
+
+  it('should include the canonical address in validation results', () => {
+    expect(guard.validateEmail('U.ser+1@googlemail.com').canonicalEmail).toBe('user@gmail.com');
+    expect(guard.validateEmail('not-an-email').canonicalEmail).toBeNull();
+  });
+
+  it('should include the canonical address in async validation results', async () => {
+    const result = await guard.validateEmailAsync('user+1@gmail.com', { stages: ['list'] });
+    expect(result.canonicalEmail).toBe('user@gmail.com');
+  });
+});
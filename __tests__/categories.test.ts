@@ -0,0 +1,101 @@
+/**
+ * Tests for domain categories
+ */
+
+import { CategoryIndex, loadCategoryDomains } from '../src/data/categories';
+import { createGuard } from '../src/guard';
+
+describe('Domain categories', () => {
+  describe('bundled datasets', () => {
+    it('should load the webmail and relay datasets', () => {
+      expect(loadCategoryDomains('webmail')).toContain('gmail.com');
+      expect(loadCategoryDomains('relay')).toContain('privaterelay.appleid.com');
+    });
+  });
+
+  describe('CategoryIndex', () => {
+    const index = new CategoryIndex({ webmail: ['gmail.com', 'icloud.com'], relay: ['mozmail.com', 'icloud.com'] });
+
+    it('should match domains and their subdomains', () => {
+      expect(index.match('gmail.com')).toBe('webmail');
+      expect(index.match('alias.mozmail.com')).toBe('relay');
+      expect(index.match('example.com')).toBeNull();
+    });
+
+    it('should prefer relays over webmail', () => {
+      expect(index.match('icloud.com')).toBe('relay');
+    });
+
+    it('should get exact dataset domains only', () => {
+      expect(index.get('gmail.com')).toBe('webmail');
+      expect(index.get('alias.mozmail.com')).toBeNull();
+    });
+
+    it('should only match entries as a suffix', () => {
+      expect(index.match('gmail.com.example.tk')).toBeNull();
+    });
+  });
+
+  describe('EmailGuard.classifyDomain', () => {
+    const guard = createGuard({
+      domains: ['tempmail.com', 'mozmail.com', 'mail.ru', '53g.mail.com'],
+      deny: ['outlook.com'],
+    });
+
+    it('should classify with the bundled datasets', () => {
+      expect(guard.classifyDomain('tempmail.com')).toBe('disposable');
+      expect(guard.classifyDomain('Gmail.com')).toBe('webmail');
+      expect(guard.classifyDomain('privaterelay.appleid.com')).toBe('relay');
+      expect(guard.classifyDomain('acme-corp.com')).toBe('corporate');
+      expect(guard.classifyDomain('')).toBeNull();
+    });
+
+    it('should not treat listed webmail providers and relays as disposable', () => {
+      expect(guard.classifyDomain('mozmail.com')).toBe('relay');
+      expect(guard.isTempEmail('user@mozmail.com')).toBe(false);
+      expect(guard.isTempEmail('user@mail.ru')).toBe(false);
+      expect(guard.checkEmail('user@mail.ru')).toMatchObject({ matchedEntry: 'mail.ru', isTempEmail: false, category: 'webmail' });
+    });
+
+    it('should still flag listed subdomains of webmail domains', () => {
+      expect(guard.isTempEmail('user@53g.mail.com')).toBe(true);
+      expect(guard.checkEmail('user@53g.mail.com')).toMatchObject({ matchType: 'exact', isTempEmail: true, category: 'disposable' });
+      expect(guard.isTempEmail('user@mail.com')).toBe(false);
+      expect(guard.isTempEmail('user@inbox.mail.ru')).toBe(false);
+    });
+
+    it('should let the denylist win over the datasets', () => {
+      expect(guard.classifyDomain('outlook.com')).toBe('disposable');
+      expect(guard.isTempEmail('user@outlook.com')).toBe(true);
+    });
+
+    it('should use configured category lists', () => {
+      const custom = createGuard({ domains: [], categories: { webmail: ['mail.example'], relay: [] } });
+      expect(custom.classifyDomain('mail.example')).toBe('webmail');
+      expect(custom.classifyDomain('gmail.com')).toBe('corporate');
+      expect(custom.classifyDomain('privaterelay.appleid.com')).toBe('corporate');
+    });
+  });
+
+  describe('ValidationResult.category', () => {
+    const guard = createGuard({ domains: ['tempmail.com'] });
+
+    it('should include the category', () => {
+      expect(guard.validateEmail('user@tempmail.com').category).toBe('disposable');
+      expect(guard.validateEmail('user@gmail.com').category).toBe('webmail');
+      expect(guard.validateEmail('user@duck.com').category).toBe('relay');
+      expect(guard.validateEmail('user@acme-corp.com').category).toBe('corporate');
+      expect(guard.validateEmail('not-an-email').category).toBeNull();
+    });
+
+    it('should treat webmail and relays as final in the list stage', async () => {
+      const result = await guard.validateEmailAsync('user@gmail.com', { stages: ['list', 'heuristics'] });
+      expect(result).toMatchObject({ isTempEmail: false, stage: 'list', category: 'webmail' });
+    });
+
+    it('should report disposable for later pipeline stages', async () => {
+      const result = await guard.validateEmailAsync('user@my-tempmail-box.xyz', { stages: ['list', 'heuristics'] });
+      expect(result).toMatchObject({ isTempEmail: true, stage: 'heuristics', category: 'disposable' });
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Tests for the on-disk source cache and conditional requests, against a local HTTP server
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AddressInfo } from 'net';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { SourceCache } from '../src/data/disk-cache';
+import { DomainLoader } from '../src/data/loader';
+import { DOMAIN_SOURCES } from '../src/data/sources';
+
+/**
+ * Set to make the bundled data files invisible, so loads fall back to the remote sources
+ */
+let mockHideDataFiles = false;
+
+jest.mock('fs', () => {
+  const actual = jest.requireActual('fs');
+  return { ...actual, existsSync: (path: string) => !mockHideDataFiles && actual.existsSync(path) };
+});
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+const source = DOMAIN_SOURCES[0];
+const requests: IncomingMessage[] = [];
+let handler: Handler;
+let server: Server;
+let baseUrl: string;
+let cacheDir: string;
+
+function listBody(domain: string): string {
+  return source.type === 'json' ? JSON.stringify([domain]) : domain;
+}
+
+/**
+ * Serve a list with validators, answering 304 to matching conditional requests
+ */
+function serveWithValidators(domain: string, etag: string, lastModified: string): Handler {
+  return (request, response) => {
+    if (request.headers['if-none-match'] === etag || request.headers['if-modified-since'] === lastModified) {
+      response.writeHead(304);
+      response.end();
+      return;
+    }
+    response.writeHead(200, { ETag: etag, 'Last-Modified': lastModified });
+    response.end(listBody(domain));
+  };
+}
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    requests.push(request);
+    handler(request, response);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  mockHideDataFiles = true;
+  cacheDir = mkdtempSync(join(tmpdir(), 'temp-email-guard-'));
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+  // Serve the first source from the local server, the others are empty
+  const realFetch = global.fetch;
+  jest.spyOn(global, 'fetch').mockImplementation(async (input, init) => {
+    if (String(input) === source.url) {
+      return realFetch(`${baseUrl}/list`, init);
+    }
+    const other = DOMAIN_SOURCES.find((candidate) => candidate.url === String(input));
+    return new Response(other?.type === 'json' ? '[]' : '');
+  });
+});
+
+afterEach(() => {
+  mockHideDataFiles = false;
+  requests.splice(0);
+  rmSync(cacheDir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe('SourceCache', () => {
+  it('should round-trip entries', async () => {
+    const cache = new SourceCache(join(cacheDir, 'nested'));
+    const entry = { url: 'https://example.com/list', etag: '"v1"', lastModified: null, fetchedAt: 1, body: 'temp.com' };
+    await cache.write('primary', entry);
+
+    expect(await cache.read('primary', entry.url)).toEqual(entry);
+  });
+
+  it('should ignore missing, corrupt and other-URL entries', async () => {
+    const cache = new SourceCache(cacheDir);
+    writeFileSync(join(cacheDir, 'broken.json'), '{');
+    await cache.write('moved', { url: 'https://old.example.com', etag: null, lastModified: null, fetchedAt: 1, body: '' });
+
+    expect(await cache.read('missing', 'https://example.com')).toBeNull();
+    expect(await cache.read('broken', 'https://example.com')).toBeNull();
+    expect(await cache.read('moved', 'https://new.example.com')).toBeNull();
+  });
+});
+
+describe('DomainLoader disk cache', () => {
+  it('should reuse a fresh cached list without a request', async () => {
+    handler = serveWithValidators('cached-temp.com', '"v1"', 'Mon, 01 Jan 2024 00:00:00 GMT');
+    await new DomainLoader({ cacheDir }).load();
+    expect(requests).toHaveLength(1);
+
+    handler = () => {
+      throw new Error('should not be requested');
+    };
+    const loader = new DomainLoader({ cacheDir });
+
+    expect(await loader.load()).toEqual(['cached-temp.com']);
+    expect(requests).toHaveLength(1);
+    expect(loader.getLoadReport()!.sources[0]).toMatchObject({ ok: true, cache: 'hit', attempts: 0, status: null });
+  });
+
+  it('should revalidate an old list and reuse it on 304', async () => {
+    handler = serveWithValidators('cached-temp.com', '"v1"', 'Mon, 01 Jan 2024 00:00:00 GMT');
+    await new DomainLoader({ cacheDir }).load();
+    const loader = new DomainLoader({ cacheDir, cacheMaxAge: 0 });
+
+    expect(await loader.load()).toEqual(['cached-temp.com']);
+    expect(requests[1].headers).toMatchObject({
+      'if-none-match': '"v1"',
+      'if-modified-since': 'Mon, 01 Jan 2024 00:00:00 GMT',
+    });
+    expect(loader.getLoadReport()!.sources[0]).toMatchObject({ ok: true, cache: 'revalidated', status: 304 });
+  });
+
+  it('should replace a changed list', async () => {
+    handler = serveWithValidators('old-temp.com', '"v1"', 'Mon, 01 Jan 2024 00:00:00 GMT');
+    await new DomainLoader({ cacheDir }).load();
+
+    handler = serveWithValidators('new-temp.com', '"v2"', 'Tue, 02 Jan 2024 00:00:00 GMT');
+    expect(await new DomainLoader({ cacheDir, cacheMaxAge: 0 }).load()).toEqual(['new-temp.com']);
+
+    handler = () => {
+      throw new Error('should not be requested');
+    };
+    expect(await new DomainLoader({ cacheDir }).load()).toEqual(['new-temp.com']);
+  });
+
+  it('should fall back to a stale list when the source fails', async () => {
+    handler = serveWithValidators('cached-temp.com', '"v1"', 'Mon, 01 Jan 2024 00:00:00 GMT');
+    await new DomainLoader({ cacheDir }).load();
+
+    handler = (_request, response) => {
+      response.writeHead(503);
+      response.end();
+    };
+    const loader = new DomainLoader({ cacheDir, cacheMaxAge: 0, retries: 0 });
+
+    expect(await loader.load()).toEqual(['cached-temp.com']);
+    expect(loader.getLoadReport()!.sources[0]).toMatchObject({ ok: true, cache: 'stale', status: 503 });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('using cached list'));
+  });
+
+  it('should not cache without a cache directory', async () => {
+    handler = serveWithValidators('fresh-temp.com', '"v1"', 'Mon, 01 Jan 2024 00:00:00 GMT');
+    await new DomainLoader().load();
+    await new DomainLoader().load();
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].headers['if-none-match']).toBeUndefined();
+  });
+});
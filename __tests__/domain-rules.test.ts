@@ -0,0 +1,49 @@
+/**
+ * Tests for allowlist / denylist rules
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DomainRules } from '../src/utils/domain-rules';
+
+describe('DomainRules', () => {
+  it('should match plain entries and their subdomains', () => {
+    const rules = new DomainRules(['Example.com']);
+    expect(rules.match('example.com')).toBe('example.com');
+    expect(rules.match('mail.example.com')).toBe('example.com');
+    expect(rules.match('example.org')).toBeNull();
+  });
+
+  it('should match wildcard entries for subdomains only', () => {
+    const rules = new DomainRules(['*.corp-relay.example']);
+    expect(rules.match('mx.corp-relay.example')).toBe('*.corp-relay.example');
+    expect(rules.match('corp-relay.example')).toBeNull();
+  });
+
+  it('should only match rules at the end of a domain', () => {
+    const rules = new DomainRules(['corp.example', '*.relay.example']);
+    expect(rules.match('corp.example.evil.xyz')).toBeNull();
+    expect(rules.match('a.corp.example.evil.xyz')).toBeNull();
+    expect(rules.match('mx.relay.example.evil.xyz')).toBeNull();
+    expect(rules.match('xcorp.example')).toBeNull();
+  });
+
+  it('should read entries from a file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rules-'));
+    const file = join(dir, 'allow.txt');
+    writeFileSync(file, '# partners\npartner.com\n\n*.relay.example\n');
+
+    try {
+      const rules = new DomainRules(file);
+      expect(rules.getEntries()).toEqual(['partner.com', '*.relay.example']);
+      expect(rules.size).toBe(2);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should match nothing when empty', () => {
+    expect(new DomainRules().match('example.com')).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for the RFC 5321/5322 email parser
+ */
+
+import { parseEmail } from '../src/utils/email-parser';
+
+function codeOf(email: string, options = {}): string | null {
+  const result = parseEmail(email, options);
+  return result.ok ? null : result.code;
+}
+
+describe('parseEmail', () => {
+  describe('valid addresses', () => {
+    it('should accept dot-atom local parts', () => {
+      expect(codeOf('user@example.com')).toBeNull();
+      expect(codeOf('first.last+tag@sub.example.co.uk')).toBeNull();
+      expect(codeOf("o'brien!#$%&*=?^_`{|}~-@example.com")).toBeNull();
+    });
+
+    it('should accept quoted local parts', () => {
+      const result = parseEmail('"john doe"@example.com');
+      expect(result).toEqual({
+        ok: true,
+        email: {
+          localPart: '"john doe"',
+          domain: 'example.com',
+          asciiDomain: 'example.com',
+          isQuoted: true,
+          isDomainLiteral: false,
+          isSmtpUtf8: false,
+        },
+      });
+      expect(codeOf('"a@b"@example.com')).toBeNull();
+      expect(codeOf('"quote\\"inside"@example.com')).toBeNull();
+    });
+
+    it('should accept internationalized addresses', () => {
+      const result = parseEmail('δοκιμή@Bücher.de');
+      expect(result.ok && result.email).toMatchObject({
+        domain: 'Bücher.de',
+        asciiDomain: 'xn--bcher-kva.de',
+        isSmtpUtf8: true,
+      });
+      expect(codeOf('用户@例子.广告')).toBeNull();
+      expect(codeOf('"δοκιμή test"@example.com')).toBeNull();
+    });
+
+    it('should reject SMTPUTF8 local parts when disabled', () => {
+      expect(codeOf('δοκιμή@example.com', { allowSmtpUtf8: false })).toBe('INVALID_LOCAL_PART');
+      expect(codeOf('user@bücher.de', { allowSmtpUtf8: false })).toBeNull();
+    });
+
+    it('should count local part length in octets', () => {
+      expect(codeOf('é'.repeat(32) + '@example.com')).toBeNull();
+      expect(codeOf('é'.repeat(33) + '@example.com')).toBe('LOCAL_PART_TOO_LONG');
+    });
+
+    it('should accept domain literals only when enabled', () => {
+      expect(codeOf('user@[192.0.2.1]')).toBe('DOMAIN_LITERAL_NOT_ALLOWED');
+      expect(codeOf('user@[192.0.2.1]', { allowDomainLiterals: true })).toBeNull();
+      expect(codeOf('user@[IPv6:2001:db8::1]', { allowDomainLiterals: true })).toBeNull();
+      expect(codeOf('user@[999.0.2.1]', { allowDomainLiterals: true })).toBe('INVALID_DOMAIN_LITERAL');
+    });
+  });
+
+  describe('structure errors', () => {
+    it('should report missing or repeated @ signs', () => {
+      expect(codeOf('invalid-email')).toBe('MISSING_AT_SIGN');
+      expect(codeOf('a@@b.c')).toBe('MULTIPLE_AT_SIGNS');
+      expect(codeOf('a@b@c.com')).toBe('MULTIPLE_AT_SIGNS');
+    });
+
+    it('should report empty parts', () => {
+      expect(codeOf('@example.com')).toBe('EMPTY_LOCAL_PART');
+      expect(codeOf('user@')).toBe('EMPTY_DOMAIN');
+    });
+  });
+
+  describe('local part errors', () => {
+    it('should report dot placement', () => {
+      expect(codeOf('.user@example.com')).toBe('INVALID_DOT_POSITION');
+      expect(codeOf('user.@example.com')).toBe('INVALID_DOT_POSITION');
+      expect(codeOf('us..er@example.com')).toBe('CONSECUTIVE_DOTS');
+    });
+
+    it('should report invalid characters', () => {
+      expect(codeOf('us er@example.com')).toBe('INVALID_LOCAL_PART');
+      expect(codeOf('user(comment)@example.com')).toBe('INVALID_LOCAL_PART');
+      expect(codeOf(' user@example.com')).toBe('INVALID_LOCAL_PART');
+    });
+
+    it('should report quoted string errors', () => {
+      expect(codeOf('"unterminated@example.com')).toBe('UNTERMINATED_QUOTED_STRING');
+      expect(codeOf('"ab"c@example.com')).toBe('INVALID_QUOTED_STRING');
+    });
+
+    it('should enforce the 64 character limit', () => {
+      expect(codeOf('a'.repeat(64) + '@example.com')).toBeNull();
+      expect(codeOf('a'.repeat(65) + '@example.com')).toBe('LOCAL_PART_TOO_LONG');
+    });
+  });
+
+  describe('domain errors', () => {
+    it('should enforce label and domain limits', () => {
+      expect(codeOf('user@' + 'a'.repeat(63) + '.com')).toBeNull();
+      expect(codeOf('user@' + 'a'.repeat(64) + '.com')).toBe('LABEL_TOO_LONG');
+      expect(codeOf('user@' + 'a.'.repeat(128) + 'com')).toBe('DOMAIN_TOO_LONG');
+    });
+
+    it('should enforce the overall address limit', () => {
+      const domain = ['a'.repeat(63), 'b'.repeat(63), 'c'.repeat(63), 'com'].join('.');
+      expect(codeOf('a'.repeat(64) + '@' + domain)).toBe('ADDRESS_TOO_LONG');
+    });
+
+    it('should report invalid labels', () => {
+      expect(codeOf('user@exa_mple.com')).toBe('INVALID_DOMAIN');
+      expect(codeOf('user@-example.com')).toBe('INVALID_DOMAIN');
+      expect(codeOf('user@example.com.')).toBe('INVALID_DOMAIN');
+      expect(codeOf('user@example..com')).toBe('CONSECUTIVE_DOTS');
+    });
+
+    it('should require a top-level domain', () => {
+      expect(codeOf('user@localhost')).toBe('MISSING_TLD');
+      expect(codeOf('user@1.2.3.4')).toBe('MISSING_TLD');
+    });
+  });
+
+  it('should include a readable message', () => {
+    const result = parseEmail('a'.repeat(65) + '@example.com');
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.message).toBe('Invalid email format: local part exceeds 64 octets');
+    }
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Tests for lifecycle events
+ */
+
+import { DomainLoader } from '../src/data/loader';
+import { DOMAIN_SOURCES } from '../src/data/sources';
+import { createGuard } from '../src/guard';
+import { GuardEvents } from '../src/events';
+import * as dnsDetector from '../src/utils/dns-detector';
+import type { CacheEvictEvent, DetectedEvent, LoadCompleteEvent, LoadFailedEvent, RefreshEvent, SourceFailedEvent } from '../src/events';
+
+/**
+ * Set to make the bundled data files invisible, so loads fall back to the remote sources
+ */
+let mockHideDataFiles = false;
+
+jest.mock('fs', () => {
+  const actual = jest.requireActual('fs');
+  return { ...actual, existsSync: (path: string) => !mockHideDataFiles && actual.existsSync(path) };
+});
+
+/**
+ * Loader serving a scripted sequence of lists (an Error entry makes that reload fail)
+ */
+class ScriptedLoader extends DomainLoader {
+  private cached: readonly string[] | null = null;
+
+  constructor(private readonly lists: Array<readonly string[] | Error>) {
+    super();
+  }
+
+  async load(): Promise<readonly string[]> {
+    return this.cached || this.reload();
+  }
+
+  async reload(): Promise<readonly string[]> {
+    const next = this.lists.shift();
+    if (!next || next instanceof Error) {
+      throw next || new Error('No more lists');
+    }
+    this.cached = next;
+    return next;
+  }
+
+  getCached(): readonly string[] | null {
+    return this.cached;
+  }
+}
+
+describe('Lifecycle events', () => {
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    mockHideDataFiles = false;
+    jest.restoreAllMocks();
+  });
+
+  describe('GuardEvents', () => {
+    it('should call on and once listeners', () => {
+      const events = new GuardEvents();
+      const onListener = jest.fn();
+      const onceListener = jest.fn();
+      events.on('load:start', onListener).once('load:start', onceListener);
+
+      events.emit('load:start', { refresh: false });
+      events.emit('load:start', { refresh: true });
+
+      expect(onListener).toHaveBeenCalledTimes(2);
+      expect(onceListener).toHaveBeenCalledTimes(1);
+      expect(onceListener).toHaveBeenCalledWith({ refresh: false });
+    });
+
+    it('should stop calling removed listeners', () => {
+      const events = new GuardEvents();
+      const listener = jest.fn();
+      events.on('load:start', listener);
+      events.off('load:start', listener);
+
+      events.emit('load:start', { refresh: false });
+      expect(listener).not.toHaveBeenCalled();
+      expect(events.hasListeners('load:start')).toBe(false);
+    });
+
+    it('should keep calling listeners when one throws', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const events = new GuardEvents();
+      const listener = jest.fn();
+      events.on('load:start', () => {
+        throw new Error('broken hook');
+      });
+      events.on('load:start', listener);
+
+      expect(() => events.emit('load:start', { refresh: false })).not.toThrow();
+      expect(listener).toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('load events', () => {
+    it('should report the start and completion of a file load', async () => {
+      const loader = new DomainLoader();
+      const events: string[] = [];
+      let complete: LoadCompleteEvent | null = null;
+      loader.events.on('load:start', () => events.push('load:start'));
+      loader.events.on('load:complete', (event) => {
+        events.push('load:complete');
+        complete = event;
+      });
+
+      const domains = await loader.load();
+
+      expect(events).toEqual(['load:start', 'load:complete']);
+      expect(complete).toMatchObject({ refresh: false, origin: 'file', domains: domains.length, failedSources: [] });
+      expect(complete!.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should report failing sources and still complete with the others', async () => {
+      mockHideDataFiles = true;
+      const failing = DOMAIN_SOURCES[0];
+      jest.spyOn(global, 'fetch').mockImplementation(async (input) => {
+        if (String(input) === failing.url) {
+          throw new Error('connection refused');
+        }
+        return new Response(JSON.stringify(['remote-temp.com']), { status: 200 });
+      });
+
+      const loader = new DomainLoader({ retries: 0 });
+      const failures: SourceFailedEvent[] = [];
+      let complete: LoadCompleteEvent | null = null;
+      loader.events.on('load:source-failed', (event) => failures.push(event));
+      loader.events.on('load:complete', (event) => {
+        complete = event;
+      });
+
+      await loader.load();
+
+      expect(failures).toHaveLength(1);
+      expect(failures[0].source).toBe(failing.key);
+      expect(failures[0].url).toBe(failing.url);
+      expect(failures[0].error.message).toBe('connection refused');
+      expect(complete).toMatchObject({ origin: 'remote', domains: 1, failedSources: [failing.key] });
+    });
+
+    it('should report error responses and the failed load', async () => {
+      mockHideDataFiles = true;
+      jest.spyOn(global, 'fetch').mockImplementation(async () => new Response('gone', { status: 404 }));
+
+      const loader = new DomainLoader({ retries: 0 });
+      const failures: SourceFailedEvent[] = [];
+      const failed: LoadFailedEvent[] = [];
+      loader.events.on('load:source-failed', (event) => failures.push(event));
+      loader.events.on('load:failed', (event) => failed.push(event));
+
+      await expect(loader.load()).rejects.toThrow('No domains could be loaded from any source');
+
+      expect(failures).toHaveLength(DOMAIN_SOURCES.length);
+      expect(failures[0].error.message).toContain('HTTP 404');
+      expect(failed).toHaveLength(1);
+      expect(failed[0]).toMatchObject({ refresh: false });
+      expect(failed[0].error.message).toBe('No domains could be loaded from any source');
+    });
+  });
+
+  describe('refresh events', () => {
+    it('should report successful and failed refreshes', async () => {
+      const guard = createGuard({ loader: new ScriptedLoader([['old-temp.com'], ['a.com', 'b.com'], new Error('offline')]) });
+      await guard.initialize();
+      const refreshes: RefreshEvent[] = [];
+      guard.on('refresh', (event) => refreshes.push(event));
+
+      await guard.refresh();
+      await guard.refresh();
+
+      expect(refreshes).toHaveLength(2);
+      expect(refreshes[0]).toMatchObject({ success: true, domains: 2 });
+      expect(refreshes[0].error).toBeUndefined();
+      expect(refreshes[1]).toMatchObject({ success: false, domains: 2 });
+      expect(refreshes[1].error?.message).toBe('offline');
+      expect(warnSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('cache:evict', () => {
+    it('should report cleared caches with the reason', async () => {
+      const guard = createGuard({ loader: new ScriptedLoader([['old-temp.com'], ['new-temp.com']]) });
+      await guard.initialize();
+      const evictions: CacheEvictEvent[] = [];
+      guard.on('cache:evict', (event) => evictions.push(event));
+
+      guard.isTempEmail('user@old-temp.com');
+      guard.setDenylist(['blocked.com']);
+      expect(evictions).toEqual([{ cache: 'result', domain: null, reason: 'rules' }]);
+
+      guard.isTempEmail('user@old-temp.com');
+      await guard.refresh();
+      expect(evictions[1]).toEqual({ cache: 'result', domain: null, reason: 'refresh' });
+    });
+
+    it('should not report clearing empty caches', () => {
+      const guard = createGuard({ domains: ['temp.com'] });
+      const listener = jest.fn();
+      guard.on('cache:evict', listener);
+
+      guard.setAllowlist(['example.com']);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should report the oldest entry dropped at capacity', () => {
+      const guard = createGuard({ domains: ['temp.com'] });
+      const evictions: CacheEvictEvent[] = [];
+      guard.on('cache:evict', (event) => evictions.push(event));
+
+      for (let i = 0; i <= 1000; i++) {
+        guard.isTempEmail(`user@domain${i}.com`);
+      }
+
+      expect(evictions).toEqual([{ cache: 'result', domain: 'domain0.com', reason: 'capacity' }]);
+    });
+  });
+
+  describe('detected', () => {
+    it('should report disposable addresses from synchronous checks', () => {
+      const guard = createGuard({ domains: ['temp.com'], deny: ['blocked.com'] });
+      const detections: DetectedEvent[] = [];
+      guard.on('detected', (event) => detections.push(event));
+
+      guard.isTempEmail('user@temp.com');
+      guard.validateEmail('user@blocked.com');
+      guard.isTempEmail('user@example.com');
+
+      expect(detections).toEqual([
+        { email: 'user@temp.com', domain: 'temp.com', stage: 'list', override: null },
+        { email: 'user@blocked.com', domain: 'blocked.com', stage: 'list', override: { type: 'deny', rule: 'blocked.com' } },
+      ]);
+    });
+
+    it('should report the pipeline stage once per async check', async () => {
+      jest.spyOn(dnsDetector, 'getDisposableMXMatch').mockResolvedValue('mx.temp-mail.org');
+      const guard = createGuard({ domains: ['temp.com'] });
+      const detections: DetectedEvent[] = [];
+      guard.on('detected', (event) => detections.push(event));
+
+      await guard.validateEmailAsync('user@temp.com');
+      await guard.isTempEmailAsync('user@unlisted.com');
+
+      expect(detections.map((event) => [event.domain, event.stage])).toEqual([
+        ['temp.com', 'list'],
+        ['unlisted.com', 'mx'],
+      ]);
+    });
+
+    it('should not report clean addresses or explanations', () => {
+      const guard = createGuard({ domains: ['temp.com'] });
+      const listener = jest.fn();
+      guard.on('detected', listener);
+
+      guard.validateEmail('user@example.com');
+      guard.checkEmail('user@temp.com');
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should share the emitter between a loader and its guards', () => {
+    const loader = new ScriptedLoader([['temp.com']]);
+    const first = createGuard({ loader });
+    const second = createGuard({ loader });
+    expect(first.events).toBe(loader.events);
+    expect(second.events).toBe(loader.events);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for tri-state verdicts and fail modes when the domain list is unavailable
+ */
+
+import { DomainsNotLoadedError } from '../src/errors';
+import { createGuard } from '../src/guard';
+
+/**
+ * Guard whose domain list always fails to load
+ */
+function failingGuard(failMode?: 'open' | 'closed' | 'throw') {
+  return createGuard({ failMode, provider: async () => Promise.reject(new Error('artifact store down')) });
+}
+
+describe('Fail mode', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('verdicts', () => {
+    it('should report unknown until the list is loaded', async () => {
+      const guard = createGuard({ domains: ['tempmail.com'] });
+      const unloaded = failingGuard();
+
+      expect(guard.getVerdict('user@tempmail.com')).toBe('disposable');
+      expect(guard.getVerdict('user@example.com')).toBe('clean');
+      expect(unloaded.getVerdict('user@example.com')).toBe('unknown');
+      expect(unloaded.getVerdict('user@gmail.com')).toBe('clean');
+      expect(createGuard({ deny: ['blocked.example'] }).getVerdict('user@blocked.example')).toBe('disposable');
+      expect(guard.getVerdict('not an email')).toBeNull();
+      expect(await unloaded.getVerdictAsync('user@example.com', { stages: ['list'] })).toBe('unknown');
+    });
+
+    it('should not cache unknown verdicts', async () => {
+      let resolveLoad: (domains: string[]) => void = () => undefined;
+      const guard = createGuard({ provider: () => new Promise((resolve) => (resolveLoad = resolve)) });
+
+      const loading = guard.initialize();
+      expect(guard.getVerdict('user@late-temp.com')).toBe('unknown');
+      resolveLoad(['late-temp.com']);
+      await loading;
+
+      expect(guard.getVerdict('user@late-temp.com')).toBe('disposable');
+    });
+  });
+
+  describe('open', () => {
+    it('should report unknown addresses as not disposable, marked degraded', async () => {
+      const guard = failingGuard();
+
+      expect(guard.isTempEmail('user@example.com')).toBe(false);
+      expect(guard.validateEmail('user@example.com')).toMatchObject({ isTempEmail: false, verdict: 'unknown', degraded: true, error: null });
+      expect(await guard.isTempEmailAsync('user@example.com', { stages: ['list'] })).toBe(false);
+      expect(await guard.validateEmailAsync('user@example.com', { stages: ['list'] })).toMatchObject({
+        isTempEmail: false,
+        verdict: 'unknown',
+        degraded: true,
+      });
+      expect(await guard.checkEmailAsync('user@example.com')).toMatchObject({ isTempEmail: false, verdict: 'unknown' });
+    });
+  });
+
+  describe('closed', () => {
+    it('should report unknown addresses as disposable', async () => {
+      const guard = failingGuard('closed');
+
+      expect(guard.isTempEmail('user@example.com')).toBe(true);
+      expect(guard.validateEmail('user@example.com')).toMatchObject({
+        isTempEmail: true,
+        verdict: 'unknown',
+        degraded: true,
+        error: 'Domain list is unavailable, email treated as temporary',
+        errorCode: 'DISPOSABLE_EMAIL',
+      });
+      expect(await guard.isTempEmailAsync('user@example.com', { stages: ['list'] })).toBe(true);
+      expect(await guard.checkEmailAsync('user@example.com')).toMatchObject({ isTempEmail: true, verdict: 'unknown' });
+    });
+
+    it('should still answer addresses decided without the list', () => {
+      const guard = createGuard({ failMode: 'closed', allow: ['allowed.example'] });
+
+      expect(guard.isTempEmail('user@gmail.com')).toBe(false);
+      expect(guard.validateEmail('user@allowed.example')).toMatchObject({ isTempEmail: false, verdict: 'clean', degraded: false });
+      expect(guard.validateEmail('not an email')).toMatchObject({ isValid: false, verdict: null, degraded: false });
+    });
+
+    it('should treat a timed out list stage as unknown', async () => {
+      const guard = createGuard({ failMode: 'closed', provider: () => new Promise(() => undefined) });
+
+      const result = await guard.validateEmailAsync('user@example.com', { stages: ['list'], timeouts: { list: 10 } });
+
+      expect(result).toMatchObject({ isTempEmail: true, verdict: 'unknown', degraded: true, timedOutStages: ['list'] });
+    });
+  });
+
+  describe('throw', () => {
+    it('should throw from synchronous checks and reject async ones with the load error', async () => {
+      const guard = failingGuard('throw');
+
+      expect(() => guard.isTempEmail('user@example.com')).toThrow(DomainsNotLoadedError);
+      expect(() => guard.validateEmail('user@example.com')).toThrow(DomainsNotLoadedError);
+      await expect(guard.isTempEmailAsync('user@example.com', { stages: ['list'] })).rejects.toThrow('artifact store down');
+      await expect(guard.checkEmailAsync('user@example.com')).rejects.toThrow('artifact store down');
+      expect(await guard.getVerdictAsync('user@example.com', { stages: ['list'] })).toBe('unknown');
+    });
+
+    it('should be the same as strict mode', () => {
+      const guard = createGuard({ strict: true, failMode: 'open' });
+      expect(guard.isTempEmail('user@0-180.com')).toBe(false);
+
+      guard.setStrict(true);
+      expect(() => guard.isTempEmail('user@0-180.com')).toThrow(DomainsNotLoadedError);
+
+      guard.setFailMode('closed');
+      expect(guard.isTempEmail('user@0-180.com')).toBe(true);
+    });
+
+    it('should not throw once the list is loaded', () => {
+      const guard = createGuard({ failMode: 'throw', domains: ['tempmail.com'] });
+
+      expect(guard.isTempEmail('user@example.com')).toBe(false);
+      expect(guard.validateEmail('user@tempmail.com')).toMatchObject({ isTempEmail: true, verdict: 'disposable', degraded: false });
+    });
+  });
+});
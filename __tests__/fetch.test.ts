@@ -0,0 +1,294 @@
+/**
+ * Tests for fetch timeouts, retries and abort signals, against a local HTTP server
+ */
+
+import { AddressInfo, Socket } from 'net';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { fetchText, resolveFetchOptions } from '../src/data/fetch';
+import { DomainLoader } from '../src/data/loader';
+import { DOMAIN_SOURCES } from '../src/data/sources';
+import { DomainLoadError } from '../src/errors';
+import { createGuard } from '../src/guard';
+
+/**
+ * Set to make the bundled data files invisible, so loads fall back to the remote sources
+ */
+let mockHideDataFiles = false;
+
+jest.mock('fs', () => {
+  const actual = jest.requireActual('fs');
+  return { ...actual, existsSync: (path: string) => !mockHideDataFiles && actual.existsSync(path) };
+});
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+/**
+ * Handlers per path, a request to an unknown path gets a 404
+ */
+const routes = new Map<string, Handler>();
+const requests = new Map<string, number>();
+let server: Server;
+let baseUrl: string;
+
+/**
+ * Sockets of requests that never get a response, closed after each test
+ */
+const hungSockets: Socket[] = [];
+
+const hang: Handler = (request) => {
+  hungSockets.push(request.socket);
+};
+
+function respond(status: number, body: string): Handler {
+  return (_request, response) => {
+    response.writeHead(status);
+    response.end(body);
+  };
+}
+
+/**
+ * Fail a number of times with a status, then succeed
+ */
+function failTimes(times: number, status: number, body: string): Handler {
+  let failures = 0;
+  return (request, response) => (failures++ < times ? respond(status, 'error') : respond(200, body))(request, response);
+}
+
+/**
+ * Serve the upstream sources from the local server (under /<source key>)
+ */
+function redirectSources(): void {
+  const realFetch = global.fetch;
+  jest.spyOn(global, 'fetch').mockImplementation((input, init) => {
+    const source = DOMAIN_SOURCES.find((candidate) => candidate.url === String(input));
+    return realFetch(source ? `${baseUrl}/${source.key}` : input, init);
+  });
+}
+
+function serveAllSources(): void {
+  for (const source of DOMAIN_SOURCES) {
+    const domain = `${source.key.toLowerCase()}-temp.com`;
+    routes.set(`/${source.key}`, respond(200, source.type === 'json' ? JSON.stringify([domain]) : domain));
+  }
+}
+
+const fastOptions = resolveFetchOptions({ fetchTimeout: 100, retries: 2, retryDelay: 10 });
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    requests.set(request.url!, (requests.get(request.url!) || 0) + 1);
+    (routes.get(request.url!) || respond(404, 'not found'))(request, response);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  mockHideDataFiles = false;
+  routes.clear();
+  requests.clear();
+  hungSockets.splice(0).forEach((socket) => socket.destroy());
+  jest.restoreAllMocks();
+});
+
+describe('fetchText', () => {
+  it('should return the body of a successful response', async () => {
+    routes.set('/list', respond(200, 'temp.com\n'));
+    const response = await fetchText(`${baseUrl}/list`, fastOptions);
+
+    expect(response).toMatchObject({ status: 200, ok: true, body: 'temp.com\n' });
+  });
+
+  it('should retry server errors with backoff', async () => {
+    routes.set('/list', failTimes(2, 503, 'temp.com'));
+    const onRetry = jest.fn();
+    const response = await fetchText(`${baseUrl}/list`, fastOptions, { onRetry });
+
+    expect(response.body).toBe('temp.com');
+    expect(requests.get('/list')).toBe(3);
+    expect(onRetry.mock.calls).toEqual([[1, 'HTTP 503'], [2, 'HTTP 503']]);
+  });
+
+  it('should return the last error response when retries run out', async () => {
+    routes.set('/list', respond(429, 'slow down'));
+    const response = await fetchText(`${baseUrl}/list`, fastOptions);
+
+    expect(response).toMatchObject({ status: 429, ok: false });
+    expect(requests.get('/list')).toBe(3);
+  });
+
+  it('should not retry client errors', async () => {
+    const response = await fetchText(`${baseUrl}/missing`, fastOptions);
+
+    expect(response.status).toBe(404);
+    expect(requests.get('/missing')).toBe(1);
+  });
+
+  it('should time out hung requests and retry them', async () => {
+    routes.set('/list', hang);
+
+    await expect(fetchText(`${baseUrl}/list`, fastOptions)).rejects.toThrow('Timed out after 100 ms');
+    expect(requests.get('/list')).toBe(3);
+  });
+
+  it('should stop when the signal aborts', async () => {
+    routes.set('/list', hang);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('shutting down')), 20);
+    const options = resolveFetchOptions({ fetchTimeout: 10000 });
+
+    await expect(fetchText(`${baseUrl}/list`, options, { signal: controller.signal })).rejects.toThrow('shutting down');
+    expect(requests.get('/list')).toBe(1);
+  });
+});
+
+describe('DomainLoader fetching', () => {
+  beforeEach(() => {
+    mockHideDataFiles = true;
+    redirectSources();
+    serveAllSources();
+  });
+
+  it('should skip a hung source after its timeout', async () => {
+    const hungSource = DOMAIN_SOURCES[2];
+    routes.set(`/${hungSource.key}`, hang);
+    const loader = new DomainLoader({ fetchTimeout: 50, retries: 1, retryDelay: 10 });
+
+    const domains = await loader.load();
+
+    expect(domains).toHaveLength(DOMAIN_SOURCES.length - 1);
+    expect(loader.getLoadReport()!.sources[2]).toMatchObject({
+      key: hungSource.key,
+      ok: false,
+      status: null,
+      attempts: 2,
+      error: 'Timed out after 50 ms',
+    });
+  });
+
+  it('should record retried sources in the report', async () => {
+    routes.set(`/${DOMAIN_SOURCES[0].key}`, failTimes(1, 502, 'retried-temp.com'));
+    const loader = new DomainLoader({ retryDelay: 10 });
+
+    const domains = await loader.load();
+
+    expect(domains).toContain('retried-temp.com');
+    expect(loader.getLoadReport()!.sources[0]).toMatchObject({ ok: true, status: 200, attempts: 2 });
+  });
+
+  it('should fail the load at the load deadline', async () => {
+    for (const source of DOMAIN_SOURCES) {
+      routes.set(`/${source.key}`, hang);
+    }
+    const loader = new DomainLoader({ loadTimeout: 100, fetchTimeout: 10000 });
+
+    const error = await loader.load().catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(DomainLoadError);
+    expect(error.message).toBe('Load timed out after 100 ms');
+    expect(loader.getLoadReport()!.success).toBe(false);
+  });
+
+  it('should only stop the aborted caller, not the shared load', async () => {
+    routes.set(`/${DOMAIN_SOURCES[0].key}`, (request, response) => {
+      setTimeout(() => respond(200, 'late-temp.com')(request, response), 200);
+    });
+    const guard = createGuard({ fetchTimeout: 10000 });
+
+    const impatient = guard.initialize({ signal: AbortSignal.timeout(50) });
+    const patient = guard.initialize();
+
+    await expect(impatient).rejects.toMatchObject({ name: 'TimeoutError' });
+    await patient;
+    expect(guard.isTempEmail('user@late-temp.com')).toBe(true);
+  });
+
+  it('should not start a load for an already aborted signal', async () => {
+    const loader = new DomainLoader();
+
+    await expect(loader.load({ signal: AbortSignal.abort(new Error('gone')) })).rejects.toThrow('gone');
+    expect(requests.size).toBe(0);
+  });
+
+  it('should only stop waiting when another call started the load', async () => {
+    routes.set(`/${DOMAIN_SOURCES[0].key}`, (request, response) => {
+      setTimeout(() => respond(200, 'late-temp.com')(request, response), 100);
+    });
+    const loader = new DomainLoader();
+    const load = loader.load();
+
+    const controller = new AbortController();
+    const waiting = loader.load({ signal: controller.signal });
+    controller.abort(new Error('gave up'));
+
+    await expect(waiting).rejects.toThrow('gave up');
+    expect(await load).toContain('late-temp.com');
+  });
+});
+
+describe('Source quorum without provenance', () => {
+  beforeEach(() => {
+    redirectSources();
+  });
+
+  it('should fetch from the sources when the bundled list has no provenance', async () => {
+    routes.set(`/${DOMAIN_SOURCES[0].key}`, respond(200, 'quorum-temp.com\nsingle-temp.com'));
+    routes.set(`/${DOMAIN_SOURCES[1].key}`, respond(200, JSON.stringify(['quorum-temp.com'])));
+    const guard = createGuard({ minSources: 2, retries: 0 });
+
+    await guard.initialize();
+
+    expect(guard.getDomains()).toEqual(['quorum-temp.com']);
+    expect(guard.getDomainSources('quorum-temp.com')).toEqual([DOMAIN_SOURCES[0].key, DOMAIN_SOURCES[1].key]);
+    expect(guard.getLoadReport()).toMatchObject({ origin: 'remote', error: null });
+  });
+
+  it('should keep the bundled list when fetching fails', async () => {
+    const guard = createGuard({ minSources: 2, retries: 0 });
+
+    await guard.initialize();
+
+    expect(guard.getDomains().length).toBeGreaterThan(100000);
+    expect(guard.getLoadReport()).toMatchObject({ success: true, origin: 'file', error: null });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Fetching for the source quorum failed'));
+  });
+});
+
+describe('Refreshing the bundled list', () => {
+  beforeEach(() => {
+    redirectSources();
+  });
+
+  it('should fetch the sources instead of re-reading the bundled file', async () => {
+    const guard = createGuard({ retries: 0 });
+    await guard.initialize();
+    expect(guard.getLoadReport()).toMatchObject({ origin: 'file' });
+
+    serveAllSources();
+    expect(await guard.refresh()).toBe(true);
+
+    expect(guard.getDomains()).toHaveLength(DOMAIN_SOURCES.length);
+    expect(guard.getLoadReport()).toMatchObject({ origin: 'remote' });
+    expect(guard.isTempEmail(`user@${DOMAIN_SOURCES[0].key.toLowerCase()}-temp.com`)).toBe(true);
+  });
+
+  it('should keep the bundled list when the sources are unavailable', async () => {
+    const guard = createGuard({ retries: 0 });
+    await guard.initialize();
+    const bundled = guard.getDomains();
+
+    expect(await guard.refresh()).toBe(false);
+    expect(guard.getDomains()).toBe(bundled);
+  });
+});
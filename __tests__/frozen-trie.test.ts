@@ -0,0 +1,113 @@
+/**
+ * Tests for the frozen (typed array) domain trie
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { FrozenDomainTrie } from '../src/utils/frozen-trie';
+import { DomainTrie } from '../src/utils/trie';
+
+describe('FrozenDomainTrie', () => {
+  describe('has', () => {
+    it('should only match listed entries', () => {
+      const trie = FrozenDomainTrie.fromDomains(['tempmail.com', '*.relay.example']);
+
+      expect(trie.has('tempmail.com')).toBe(true);
+      expect(trie.has('TempMail.COM')).toBe(true);
+      expect(trie.has('mail.tempmail.com')).toBe(false);
+      expect(trie.has('com')).toBe(false);
+      expect(trie.has('relay.example')).toBe(false);
+      expect(trie.has('mx.relay.example')).toBe(false);
+    });
+  });
+
+  describe('hasDomain', () => {
+    it('should find exact and subdomain matches', () => {
+      const trie = FrozenDomainTrie.fromDomains(['example.com', 'test.com', 'demo.org']);
+
+      expect(trie.hasDomain('example.com')).toBe(true);
+      expect(trie.hasDomain('demo.org')).toBe(true);
+      expect(trie.hasDomain('mail.subdomain.example.com')).toBe(true);
+      expect(trie.hasDomain('example.org')).toBe(false);
+      expect(trie.hasDomain('example')).toBe(false);
+      expect(trie.hasDomain('com')).toBe(false);
+    });
+
+    it('should handle case insensitivity', () => {
+      const trie = FrozenDomainTrie.fromDomains(['Example.COM']);
+
+      expect(trie.hasDomain('example.com')).toBe(true);
+      expect(trie.hasDomain('ExAmPlE.CoM')).toBe(true);
+    });
+
+    it('should handle single labels, deep subdomains and empty input', () => {
+      expect(FrozenDomainTrie.fromDomains(['localhost']).hasDomain('localhost')).toBe(true);
+      expect(FrozenDomainTrie.fromDomains(['example.com']).hasDomain('a.b.c.d.e.f.g.example.com')).toBe(true);
+      expect(FrozenDomainTrie.fromDomains([]).hasDomain('example.com')).toBe(false);
+    });
+  });
+
+  describe('findMatch', () => {
+    it('should return the matched entry', () => {
+      const trie = FrozenDomainTrie.fromDomains(['tempmail.com', 'mail.tempmail.net']);
+
+      expect(trie.findMatch('tempmail.com')).toBe('tempmail.com');
+      expect(trie.findMatch('A.B.TempMail.com')).toBe('tempmail.com');
+      expect(trie.findMatch('x.mail.tempmail.net')).toBe('mail.tempmail.net');
+      expect(trie.findMatch('tempmail.net')).toBeNull();
+    });
+  });
+
+  describe('wildcards', () => {
+    it('should match subdomains but not the domain itself', () => {
+      const trie = FrozenDomainTrie.fromDomains(['*.relay.example']);
+
+      expect(trie.hasDomain('a.b.relay.example')).toBe(true);
+      expect(trie.hasDomain('relay.example')).toBe(false);
+      expect(trie.findMatch('mx.relay.example')).toBe('*.relay.example');
+    });
+
+    it('should keep a plain and a wildcard entry for the same domain apart', () => {
+      const trie = FrozenDomainTrie.fromDomains(['*.relay.example', 'relay.example', 'relay.example']);
+
+      expect(trie.size).toBe(2);
+      expect(trie.findMatch('relay.example')).toBe('relay.example');
+      expect(trie.findMatch('mx.relay.example')).toBe('relay.example');
+    });
+  });
+
+  describe('fromLabelIds', () => {
+    it('should build the same trie as fromDomains', () => {
+      const labels = ['*', 'com', 'example', 'relay', 'tempmail'];
+      const trie = FrozenDomainTrie.fromLabelIds({
+        labels,
+        // tempmail.com, *.relay.example
+        ids: Uint32Array.of(4, 1, 0, 3, 2),
+        offsets: Uint32Array.of(0, 2, 5),
+      });
+
+      expect(trie.size).toBe(2);
+      expect(trie.has('tempmail.com')).toBe(true);
+      expect(trie.hasDomain('a.tempmail.com')).toBe(true);
+      expect(trie.findMatch('mx.relay.example')).toBe('*.relay.example');
+      expect(trie.hasDomain('relay.example')).toBe(false);
+    });
+  });
+
+  describe('bundled list', () => {
+    it('should give the same answers as DomainTrie', () => {
+      const domains: string[] = JSON.parse(readFileSync(join(__dirname, '../data/all-domains.json'), 'utf-8'));
+      const frozen = FrozenDomainTrie.fromDomains(domains);
+      const trie = DomainTrie.fromDomains(domains);
+      const probes = domains
+        .filter((_, i) => i % 50 === 0)
+        .flatMap((domain) => [domain, `mx.${domain}`, `x${domain}`, domain.slice(domain.indexOf('.') + 1)]);
+
+      expect(frozen.size).toBe(domains.length);
+      expect(frozen.nodeCount).toBeLessThan(domains.length * 2);
+      for (const probe of probes) {
+        expect(frozen.findMatch(probe)).toBe(trie.findMatch(probe));
+      }
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for instance-based EmailGuard
+ */
+
+import { EmailGuard, createGuard } from '../src/guard';
+import { DomainLoader } from '../src/data/loader';
+
+describe('EmailGuard', () => {
+  describe('with a fixed domain list', () => {
+    it('should check emails without loading', () => {
+      const guard = createGuard({ domains: ['tempmail.com', 'trash.io'] });
+
+      expect(guard.isTempEmail('user@tempmail.com')).toBe(true);
+      expect(guard.isTempEmail('user@sub.trash.io')).toBe(true);
+      expect(guard.isTempEmail('user@gmail.com')).toBe(false);
+    });
+
+    it('should validate emails', () => {
+      const guard = createGuard({ domains: ['tempmail.com'] });
+
+      expect(guard.validateEmail('user@tempmail.com')).toEqual({
+        isValid: true,
+        isTempEmail: true,
+        error: 'Email is from a temporary email service',
+        errorCode: 'DISPOSABLE_EMAIL',
+        canonicalEmail: 'user@tempmail.com',
+        category: 'disposable',
+        isRoleAccount: false,
+        verdict: 'disposable',
+        degraded: false,
+      });
+      expect(guard.validateEmail('not-an-email').isValid).toBe(false);
+    });
+
+    it('should rebuild from its list after clearCache', () => {
+      const guard = createGuard({ domains: ['tempmail.com'] });
+      expect(guard.isTempEmail('user@tempmail.com')).toBe(true);
+
+      guard.clearCache();
+      expect(guard.isTempEmail('user@tempmail.com')).toBe(true);
+    });
+  });
+
+  describe('checkEmail', () => {
+    const guard = createGuard({ domains: ['tempmail.com', 'trash.io'] });
+
+    it('should report exact matches', () => {
+      expect(guard.checkEmail('User@TempMail.com')).toEqual({
+        email: 'User@TempMail.com',
+        domain: 'tempmail.com',
+        isTempEmail: true,
+        matchType: 'exact',
+        matchedEntry: 'tempmail.com',
+        sources: [],
+        override: null,
+        category: 'disposable',
+        verdict: 'disposable',
+      });
+    });
+
+    it('should report the listed entry for subdomain matches', () => {
+      const result = guard.checkEmail('user@a.b.tempmail.com');
+      expect(result.matchType).toBe('subdomain');
+      expect(result.matchedEntry).toBe('tempmail.com');
+    });
+
+    it('should report no match for clean addresses', () => {
+      const result = guard.checkEmail('user@gmail.com');
+      expect(result.isTempEmail).toBe(false);
+      expect(result.matchType).toBeNull();
+      expect(result.matchedEntry).toBeNull();
+    });
+
+    it('should handle invalid input', () => {
+      expect(guard.checkEmail('notanemail').domain).toBeNull();
+      expect(guard.checkEmail(null as any).isTempEmail).toBe(false);
+    });
+  });
+
+  describe('allow and deny overrides', () => {
+    it('should let the allowlist override a list hit', () => {
+      const guard = createGuard({ domains: ['tempmail.com'], allow: ['tempmail.com'] });
+      expect(guard.isTempEmail('user@tempmail.com')).toBe(false);
+      expect(guard.validateEmail('user@tempmail.com').isTempEmail).toBe(false);
+
+      const result = guard.checkEmail('user@tempmail.com');
+      expect(result.matchedEntry).toBe('tempmail.com');
+      expect(result.override).toEqual({ type: 'allow', rule: 'tempmail.com' });
+    });
+
+    it('should let the denylist force a block', () => {
+      const guard = createGuard({ domains: [], deny: ['*.corp-relay.example'] });
+      expect(guard.isTempEmail('user@mx.corp-relay.example')).toBe(true);
+      expect(guard.isTempEmail('user@corp-relay.example')).toBe(false);
+      expect(guard.checkEmail('user@mx.corp-relay.example').override).toEqual({
+        type: 'deny',
+        rule: '*.corp-relay.example',
+      });
+    });
+
+    it('should not apply rules that appear in the middle of a domain', () => {
+      const guard = createGuard({ domains: ['evil.xyz'], allow: ['corp.example'], deny: ['tempmail.com'] });
+
+      expect(guard.checkEmail('a@corp.example.evil.xyz')).toMatchObject({ isTempEmail: true, override: null });
+      expect(guard.checkEmail('a@tempmail.com.mycompany.org')).toMatchObject({ isTempEmail: false, override: null });
+    });
+
+    it('should give the denylist precedence over the allowlist', () => {
+      const guard = createGuard({ domains: [], allow: ['example.com'], deny: ['*.example.com'] });
+      expect(guard.isTempEmail('user@example.com')).toBe(false);
+      expect(guard.isTempEmail('user@sub.example.com')).toBe(true);
+    });
+
+    it('should apply runtime updates without reloading', () => {
+      const guard = createGuard({ domains: ['tempmail.com'] });
+      expect(guard.isTempEmail('user@tempmail.com')).toBe(true);
+
+      guard.setAllowlist(['tempmail.com']);
+      expect(guard.isTempEmail('user@tempmail.com')).toBe(false);
+
+      guard.setDenylist(['newmail.io']);
+      expect(guard.isTempEmail('user@newmail.io')).toBe(true);
+      expect(guard.getDenylist()).toEqual(['newmail.io']);
+    });
+  });
+
+  describe('isolation', () => {
+    it('should keep separate state per instance', () => {
+      const strict = new EmailGuard({ domains: ['tempmail.com', 'newsletter-relay.com'] });
+      const lenient = new EmailGuard({ domains: ['tempmail.com'] });
+
+      expect(strict.isTempEmail('user@newsletter-relay.com')).toBe(true);
+      expect(lenient.isTempEmail('user@newsletter-relay.com')).toBe(false);
+      expect(strict.getDomains()).toHaveLength(2);
+      expect(lenient.getDomains()).toHaveLength(1);
+    });
+
+    it('should not share loaders between guards', async () => {
+      const loader = new DomainLoader();
+      const guard = createGuard({ loader });
+      const other = createGuard();
+
+      await guard.initialize();
+
+      expect(guard.isLoaded()).toBe(true);
+      expect(loader.isLoaded()).toBe(true);
+      expect(other.isLoaded()).toBe(false);
+      expect(other.isTempEmail('test@0-180.com')).toBe(false);
+    }, 30000);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for internationalized domain handling
+ */
+
+import { detectConfusable, toAsciiDomain, toUnicodeDomain } from '../src/utils/idn';
+import { createGuard } from '../src/guard';
+
+describe('IDN', () => {
+  describe('toAsciiDomain', () => {
+    it('should map Unicode and punycode forms to the same key', () => {
+      expect(toAsciiDomain('Bücher.DE')).toBe('xn--bcher-kva.de');
+      expect(toAsciiDomain('xn--bcher-kva.de')).toBe('xn--bcher-kva.de');
+      expect(toAsciiDomain('例子.广告')).toBe(toAsciiDomain(toAsciiDomain('例子.广告')));
+    });
+
+    it('should apply UTS-46 mapping', () => {
+      expect(toAsciiDomain('ＥＸＡＭＰＬＥ.com')).toBe('example.com');
+      expect(toAsciiDomain('example。com')).toBe('example.com');
+    });
+
+    it('should only lowercase ASCII domains', () => {
+      expect(toAsciiDomain('TempMail.COM')).toBe('tempmail.com');
+    });
+  });
+
+  describe('toUnicodeDomain', () => {
+    it('should decode punycode', () => {
+      expect(toUnicodeDomain('xn--bcher-kva.de')).toBe('bücher.de');
+    });
+  });
+
+  describe('detectConfusable', () => {
+    it('should flag mixed-script labels', () => {
+      // Cyrillic а in an otherwise Latin label
+      expect(detectConfusable('pаypal.com')).toBe('paypal.com');
+      expect(detectConfusable(toAsciiDomain('pаypal.com'))).toBe('paypal.com');
+    });
+
+    it('should flag whole-script lookalikes', () => {
+      // All Cyrillic: а р р ӏ е
+      expect(detectConfusable('аррӏе.com')).toBe('apple.com');
+    });
+
+    it('should not flag ordinary domains', () => {
+      expect(detectConfusable('gmail.com')).toBeNull();
+      expect(detectConfusable('bücher.de')).toBeNull();
+      expect(detectConfusable('пример.рф')).toBeNull();
+      expect(detectConfusable('')).toBeNull();
+    });
+  });
+
+  describe('EmailGuard', () => {
+    const guard = createGuard({ domains: ['xn--bcher-kva.de', 'tempmail.com'], deny: ['Müll.example'] });
+
+    it('should match Unicode addresses against punycode entries', () => {
+      expect(guard.isTempEmail('user@bücher.de')).toBe(true);
+      expect(guard.isTempEmail('user@BÜCHER.de')).toBe(true);
+      expect(guard.isTempEmail('user@xn--bcher-kva.de')).toBe(true);
+      expect(guard.checkEmail('user@bücher.de').domain).toBe('xn--bcher-kva.de');
+    });
+
+    it('should normalize Unicode rule entries', () => {
+      expect(guard.getDenylist()).toEqual(['xn--mll-hoa.example']);
+      expect(guard.isTempEmail('user@müll.example')).toBe(true);
+    });
+
+    it('should accept SMTPUTF8 local parts in validateEmail', () => {
+      expect(guard.validateEmail('δοκιμή@bücher.de')).toMatchObject({ isValid: true, isTempEmail: true });
+      expect(guard.validateEmail('用户@example.com')).toMatchObject({ isValid: true, isTempEmail: false });
+    });
+
+    it('should add a confusable-domain risk signal', () => {
+      const result = guard.assessEmail('user@gmаil.com');
+      expect(result.signals.map((signal) => signal.name)).toContain('confusable-domain');
+      expect(result.band).toBe('medium');
+    });
+  });
+});
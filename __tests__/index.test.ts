@@ -100,11 +100,13 @@ describe('temp-email-guard', () => {
       expect(result1.isValid).toBe(true);
       expect(result1.isTempEmail).toBe(false);
       expect(result1.error).toBeNull();
+      expect(result1.errorCode).toBeNull();
 
       const result2 = validateEmail('invalid-email');
       expect(result2.isValid).toBe(false);
       expect(result2.isTempEmail).toBe(false);
-      expect(result2.error).toBe('Invalid email format');
+      expect(result2.error).toBe('Invalid email format: missing @ sign');
+      expect(result2.errorCode).toBe('MISSING_AT_SIGN');
     });
 
     it('should detect temp emails in validation', () => {
@@ -112,6 +114,7 @@ describe('temp-email-guard', () => {
       expect(result.isValid).toBe(true);
       expect(result.isTempEmail).toBe(true);
       expect(result.error).toBe('Email is from a temporary email service');
+      expect(result.errorCode).toBe('DISPOSABLE_EMAIL');
     });
 
     it('should handle empty or invalid input', () => {
@@ -119,6 +122,7 @@ describe('temp-email-guard', () => {
       expect(result1.isValid).toBe(false);
       expect(result1.isTempEmail).toBe(false);
       expect(result1.error).toBe('Email is required and must be a string');
+      expect(result1.errorCode).toBe('REQUIRED');
 
       const result2 = validateEmail(null as any);
       expect(result2.isValid).toBe(false);
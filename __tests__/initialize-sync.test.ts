@@ -0,0 +1,150 @@
+/**
+ * Tests for synchronous initialization, strict mode and the live TEMP_EMAIL_DOMAINS export
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DomainLoader } from '../src/data/loader';
+import { DomainLoadError, DomainsNotLoadedError } from '../src/errors';
+import { createGuard } from '../src/guard';
+import { TEMP_EMAIL_DOMAINS, clearCache, initializeSync, isTempEmail, setStrict } from '../src/index';
+
+/**
+ * Set to make the bundled data files invisible
+ */
+let mockHideDataFiles = false;
+
+jest.mock('fs', () => {
+  const actual = jest.requireActual('fs');
+  return { ...actual, existsSync: (path: string) => !mockHideDataFiles && actual.existsSync(path) };
+});
+
+describe('Synchronous initialization', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    mockHideDataFiles = false;
+    jest.restoreAllMocks();
+  });
+
+  describe('DomainLoader.loadSync', () => {
+    it('should load the bundled file and report it like an async load', () => {
+      const loader = new DomainLoader();
+      const onComplete = jest.fn();
+      loader.events.on('load:complete', onComplete);
+
+      const domains = loader.loadSync();
+
+      expect(domains.length).toBeGreaterThan(100000);
+      expect(loader.loadSync()).toBe(domains);
+      expect(loader.getLoadReport()).toMatchObject({ success: true, origin: 'file', domains: domains.length });
+      expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should load a configured data file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'temp-email-guard-'));
+      try {
+        const dataFile = join(dir, 'domains.txt');
+        writeFileSync(dataFile, 'sync-temp.com\n');
+
+        expect(new DomainLoader({ dataFile }).loadSync()).toEqual(['sync-temp.com']);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should fail without a local file', () => {
+      mockHideDataFiles = true;
+      const loader = new DomainLoader();
+      const onFailed = jest.fn();
+      loader.events.on('load:failed', onFailed);
+
+      expect(() => loader.loadSync()).toThrow(DomainLoadError);
+      expect(() => loader.loadSync()).toThrow('No local domain file found');
+      expect(onFailed).toHaveBeenCalled();
+      expect(loader.isLoaded()).toBe(false);
+    });
+
+    it('should not use the bundled file when only sources or a provider are configured', () => {
+      expect(() => new DomainLoader({ sources: ['https://example.com/list.txt'] }).loadSync()).toThrow(
+        'Synchronous loading needs a local file: set dataFile'
+      );
+      expect(() => new DomainLoader({ provider: async () => [] }).loadSync()).toThrow(DomainLoadError);
+    });
+  });
+
+  describe('EmailGuard.initializeSync', () => {
+    it('should make synchronous checks work immediately', () => {
+      const guard = createGuard();
+      guard.initializeSync();
+
+      expect(guard.isLoaded()).toBe(true);
+      expect(guard.isTempEmail('user@0-180.com')).toBe(true);
+    });
+
+    it('should use a fixed domain list without loading', () => {
+      const guard = createGuard({ domains: ['fixed-temp.com'] });
+      guard.initializeSync();
+
+      expect(guard.isTempEmail('user@fixed-temp.com')).toBe(true);
+    });
+  });
+
+  describe('strict mode', () => {
+    it('should throw instead of returning a false negative before loading', () => {
+      const guard = createGuard({ strict: true });
+
+      expect(() => guard.isTempEmail('user@0-180.com')).toThrow(DomainsNotLoadedError);
+      expect(() => guard.validateEmail('user@0-180.com')).toThrow(DomainsNotLoadedError);
+      expect(() => guard.checkEmail('user@0-180.com')).toThrow('Domain list is not loaded');
+    });
+
+    it('should answer checks that don\'t need the list', () => {
+      const guard = createGuard({ strict: true, deny: ['blocked.example'], allow: ['allowed.example'] });
+
+      expect(guard.isTempEmail('user@blocked.example')).toBe(true);
+      expect(guard.isTempEmail('user@allowed.example')).toBe(false);
+      expect(guard.isTempEmail('user@gmail.com')).toBe(false);
+      expect(guard.isTempEmail('not an email')).toBe(false);
+    });
+
+    it('should stop throwing once loaded or turned off', async () => {
+      const guard = createGuard({ strict: true });
+      await guard.initialize();
+      expect(guard.isTempEmail('user@0-180.com')).toBe(true);
+
+      const lenient = createGuard({ strict: true });
+      lenient.setStrict(false);
+      expect(lenient.isTempEmail('user@0-180.com')).toBe(false);
+    });
+  });
+
+  describe('module API', () => {
+    afterEach(() => {
+      setStrict(false);
+      clearCache();
+    });
+
+    it('should keep TEMP_EMAIL_DOMAINS in sync with the loaded list', () => {
+      setStrict(true);
+      expect(TEMP_EMAIL_DOMAINS).toHaveLength(0);
+      expect(() => isTempEmail('user@0-180.com')).toThrow(DomainsNotLoadedError);
+
+      initializeSync();
+
+      expect(isTempEmail('user@0-180.com')).toBe(true);
+      expect(TEMP_EMAIL_DOMAINS.length).toBeGreaterThan(100000);
+      expect(TEMP_EMAIL_DOMAINS.includes('0-180.com')).toBe(true);
+      expect(Array.isArray(TEMP_EMAIL_DOMAINS)).toBe(true);
+      expect([...TEMP_EMAIL_DOMAINS.slice(0, 3)]).toHaveLength(3);
+
+      clearCache();
+      expect(TEMP_EMAIL_DOMAINS).toHaveLength(0);
+    });
+  });
+});
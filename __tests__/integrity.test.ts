@@ -0,0 +1,197 @@
+/**
+ * Tests for data manifests, source digest pinning and the never-block list
+ */
+
+import { generateKeyPairSync } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { DomainLoader } from '../src/data/loader';
+import { DOMAIN_SOURCES } from '../src/data/sources';
+import {
+  BUILTIN_NEVER_BLOCK,
+  DataManifest,
+  NeverBlockList,
+  checkDataFile,
+  createManifest,
+  sha256,
+  signManifest,
+  verifyManifestSignature,
+} from '../src/data/integrity';
+import { createGuard } from '../src/guard';
+
+/**
+ * Set to make the bundled data files invisible, so loads fall back to the remote sources
+ */
+let mockHideDataFiles = false;
+
+/**
+ * Set to replace the contents of data/manifest.json
+ */
+let mockManifest: string | null = null;
+
+jest.mock('fs', () => {
+  const actual = jest.requireActual('fs');
+  return {
+    ...actual,
+    existsSync: (path: string) => !mockHideDataFiles && (actual.existsSync(path) || (mockManifest !== null && path.endsWith('manifest.json'))),
+    readFileSync: (path: string, ...args: unknown[]) =>
+      mockManifest !== null && String(path).endsWith('manifest.json') ? mockManifest : actual.readFileSync(path, ...args),
+  };
+});
+
+const bundledList = readFileSync(join(__dirname, '../data/all-domains.json'), 'utf-8');
+const bundledSnapshot = readFileSync(join(__dirname, '../data/all-domains.bin'));
+const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+
+/**
+ * Serve a list from the first source and empty lists from the others, each in its source format
+ */
+function serveSources(primary: string[]): void {
+  jest.spyOn(global, 'fetch').mockImplementation(async (input) => {
+    const body = String(input) === DOMAIN_SOURCES[0].url ? primary : [];
+    return new Response(DOMAIN_SOURCES.find((source) => source.url === String(input))!.type === 'json' ? JSON.stringify(body) : body.join('\n'));
+  });
+}
+
+describe('Integrity', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    mockHideDataFiles = false;
+    mockManifest = null;
+    jest.restoreAllMocks();
+  });
+
+  describe('manifests', () => {
+    it('should hash strings and bytes alike', () => {
+      expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+      expect(sha256(Buffer.from('abc'))).toBe(sha256('abc'));
+    });
+
+    it('should accept matching files and reject changed or unlisted ones', () => {
+      const manifest = createManifest({ 'list.json': '["temp.com"]' });
+
+      expect(manifest.files['list.json'].size).toBe(12);
+      expect(checkDataFile(manifest, 'list.json', '["temp.com"]', {})).toBeNull();
+      expect(checkDataFile(manifest, 'list.json', '["gmail.com"]', {})).toContain('SHA-256 mismatch for list.json');
+      expect(checkDataFile(manifest, 'other.json', '[]', {})).toBe('other.json is not listed in manifest.json');
+      expect(checkDataFile(manifest, 'list.json', '[]', { verifyIntegrity: false })).toBeNull();
+    });
+
+    it('should only require a manifest when a public key is set', () => {
+      expect(checkDataFile(null, 'list.json', '[]', {})).toBeNull();
+      expect(checkDataFile(null, 'list.json', '[]', { manifestPublicKey: publicKey })).toBe('No manifest.json to verify list.json against');
+    });
+
+    it('should sign manifests and detect tampering', () => {
+      const signed = signManifest(createManifest({ 'list.json': '["temp.com"]' }), privateKey);
+      const tampered: DataManifest = { ...signed, files: { 'list.json': { sha256: sha256('[]'), size: 2 } } };
+
+      expect(verifyManifestSignature(signed, publicKey)).toBe(true);
+      expect(verifyManifestSignature(tampered, publicKey)).toBe(false);
+      expect(verifyManifestSignature(createManifest({}), publicKey)).toBe(false);
+      expect(checkDataFile(tampered, 'list.json', '[]', { manifestPublicKey: publicKey })).toBe(
+        'manifest.json signature is missing or invalid'
+      );
+    });
+  });
+
+  describe('NeverBlockList', () => {
+    it('should protect major providers and their parent domains', () => {
+      const list = new NeverBlockList();
+
+      expect(BUILTIN_NEVER_BLOCK).toContain('gmail.com');
+      expect(list.getProtected('gmail.com')).toBe('gmail.com');
+      expect(list.getProtected('co.uk')).not.toBeNull();
+      expect(list.getProtected('com')).not.toBeNull();
+      expect(list.getProtected('mail.gmail.com')).toBeNull();
+      expect(list.getProtected('tempmail.com')).toBeNull();
+    });
+
+    it('should add extra domains to the built-in ones', () => {
+      const list = new NeverBlockList(['Example.org']);
+
+      expect(list.getProtected('example.org')).toBe('example.org');
+      expect(list.getProtected('gmail.com')).toBe('gmail.com');
+    });
+  });
+
+  describe('DomainLoader', () => {
+    it('should verify the bundled list against the bundled manifest', async () => {
+      const loader = new DomainLoader();
+      await loader.load();
+      const neverBlock = new NeverBlockList();
+      const bundled: string[] = JSON.parse(readFileSync(join(__dirname, '../data/all-domains.json'), 'utf-8'));
+
+      expect(loader.getLoadReport()).toMatchObject({ origin: 'file', fileError: null });
+      // The shipped list predates the never-block list, the next aggregation run drops these entries
+      expect(loader.getLoadReport()!.rejected.map((entry) => entry.domain)).toEqual(
+        bundled.filter((domain) => neverBlock.getProtected(domain))
+      );
+    });
+
+    it('should fall back to the remote sources when the bundled list doesn\'t match', async () => {
+      mockManifest = JSON.stringify(createManifest({ 'all-domains.json': '[]' }));
+      serveSources(['remote-temp.com']);
+      const loader = new DomainLoader({ retries: 0 });
+
+      expect(await loader.load()).toEqual(['remote-temp.com']);
+      expect(loader.getLoadReport()).toMatchObject({
+        origin: 'remote',
+        fileError: expect.stringContaining('SHA-256 mismatch for all-domains.json'),
+      });
+    });
+
+    it('should require a signed manifest when a public key is set', async () => {
+      serveSources(['remote-temp.com']);
+      const unsigned = new DomainLoader({ retries: 0, manifestPublicKey: publicKey });
+      await unsigned.load();
+      expect(unsigned.getLoadReport()).toMatchObject({ origin: 'remote', fileError: 'manifest.json signature is missing or invalid' });
+
+      mockManifest = JSON.stringify(
+        signManifest(createManifest({ 'all-domains.bin': bundledSnapshot, 'all-domains.json': bundledList }), privateKey)
+      );
+      const signed = new DomainLoader({ manifestPublicKey: publicKey });
+      await signed.load();
+      expect(signed.getLoadReport()).toMatchObject({ origin: 'file', fileError: null });
+    });
+
+    it('should fail sources that don\'t match their pinned digest', async () => {
+      mockHideDataFiles = true;
+      serveSources(['remote-temp.com']);
+      const body = DOMAIN_SOURCES[0].type === 'json' ? JSON.stringify(['remote-temp.com']) : 'remote-temp.com';
+      const loader = new DomainLoader({
+        retries: 0,
+        sourceDigests: { [DOMAIN_SOURCES[0].key]: sha256(body), [DOMAIN_SOURCES[1].key]: sha256('pinned') },
+      });
+
+      await loader.load();
+      const [primary, secondary] = loader.getLoadReport()!.sources;
+
+      expect(primary).toMatchObject({ ok: true, sha256: sha256(body) });
+      expect(secondary).toMatchObject({ ok: false, error: expect.stringContaining('SHA-256 mismatch') });
+    });
+
+    it('should reject list entries that would block protected domains', async () => {
+      mockHideDataFiles = true;
+      serveSources(['gmail.com', 'co.uk', 'remote-temp.com', 'example.org']);
+      const guard = createGuard({ retries: 0, neverBlock: ['example.org'] });
+
+      await guard.initialize();
+
+      expect(guard.isTempEmail('user@gmail.com')).toBe(false);
+      expect(guard.isTempEmail('user@example.co.uk')).toBe(false);
+      expect(guard.isTempEmail('user@example.org')).toBe(false);
+      expect(guard.isTempEmail('user@remote-temp.com')).toBe(true);
+      expect(guard.getLoadReport()!.rejected).toEqual([
+        { domain: 'co.uk', protectedDomain: 'hotmail.co.uk', sources: [DOMAIN_SOURCES[0].key] },
+        { domain: 'example.org', protectedDomain: 'example.org', sources: [DOMAIN_SOURCES[0].key] },
+        { domain: 'gmail.com', protectedDomain: 'gmail.com', sources: [DOMAIN_SOURCES[0].key] },
+      ]);
+    });
+  });
+});
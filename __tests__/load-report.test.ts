@@ -0,0 +1,143 @@
+/**
+ * Tests for load reports and coverage requirements
+ */
+
+import { DomainLoader } from '../src/data/loader';
+import { DOMAIN_SOURCES } from '../src/data/sources';
+import { DomainLoadError } from '../src/errors';
+import { createGuard } from '../src/guard';
+
+/**
+ * Set to make the bundled data files invisible, so loads fall back to the remote sources
+ */
+let mockHideDataFiles = false;
+
+jest.mock('fs', () => {
+  const actual = jest.requireActual('fs');
+  return { ...actual, existsSync: (path: string) => !mockHideDataFiles && actual.existsSync(path) };
+});
+
+/**
+ * Serve every source with its own domain, except the failing ones
+ */
+function mockSources(failing: Record<string, number> = {}): void {
+  jest.spyOn(global, 'fetch').mockImplementation(async (input) => {
+    const source = DOMAIN_SOURCES.find((candidate) => candidate.url === String(input))!;
+    const status = failing[source.key];
+    if (status) {
+      return new Response('error', { status });
+    }
+    const body = source.type === 'json' ? JSON.stringify([`${source.key}-temp.com`]) : `${source.key}-temp.com\n`;
+    return new Response(body, { status: 200 });
+  });
+}
+
+describe('Load report', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    mockHideDataFiles = false;
+    jest.restoreAllMocks();
+  });
+
+  it('should be null before the first load', () => {
+    expect(new DomainLoader().getLoadReport()).toBeNull();
+  });
+
+  it('should report a load from the local file', async () => {
+    const loader = new DomainLoader();
+    const domains = await loader.load();
+
+    expect(loader.getLoadReport()).toMatchObject({
+      success: true,
+      origin: 'file',
+      file: expect.stringContaining('all-domains.bin'),
+      domains: domains.length,
+      sources: [],
+      error: null,
+    });
+  });
+
+  it('should report status, domain count and error per source', async () => {
+    mockHideDataFiles = true;
+    mockSources({ [DOMAIN_SOURCES[1].key]: 503 });
+    const loader = new DomainLoader({ retries: 0 });
+    await loader.load();
+
+    const report = loader.getLoadReport()!;
+    expect(report).toMatchObject({ success: true, origin: 'remote', file: null, domains: DOMAIN_SOURCES.length - 1 });
+    expect(report.sources.map((source) => source.key)).toEqual(DOMAIN_SOURCES.map((source) => source.key));
+    expect(report.sources[0]).toMatchObject({ url: DOMAIN_SOURCES[0].url, ok: true, status: 200, domains: 1, error: null });
+    expect(report.sources[1]).toMatchObject({ ok: false, status: 503, domains: 0, error: 'HTTP 503' });
+    expect(report.sources[1].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should report network errors without a status', async () => {
+    mockHideDataFiles = true;
+    jest.spyOn(global, 'fetch').mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+    const loader = new DomainLoader({ retries: 0 });
+
+    await expect(loader.load()).rejects.toThrow(DomainLoadError);
+    const report = loader.getLoadReport()!;
+    expect(report.success).toBe(false);
+    expect(report.error).toBe('No domains could be loaded from any source');
+    expect(report.sources[0]).toMatchObject({ ok: false, status: null, error: 'getaddrinfo ENOTFOUND' });
+  });
+
+  describe('coverage requirements', () => {
+    it('should fail the load when too few sources loaded', async () => {
+      mockHideDataFiles = true;
+      mockSources({ [DOMAIN_SOURCES[0].key]: 500, [DOMAIN_SOURCES[1].key]: 500 });
+      const loader = new DomainLoader({ retries: 0, minSourcesRequired: DOMAIN_SOURCES.length - 1 });
+
+      const error = await loader.load().catch((caught) => caught);
+      expect(error).toBeInstanceOf(DomainLoadError);
+      expect(error.message).toBe(
+        `Only ${DOMAIN_SOURCES.length - 2} of ${DOMAIN_SOURCES.length} sources loaded (minSourcesRequired: ${DOMAIN_SOURCES.length - 1})`
+      );
+      expect(error.report).toBe(loader.getLoadReport());
+      expect(loader.getCached()).toBeNull();
+    });
+
+    it('should fail the load when too few domains loaded', async () => {
+      mockHideDataFiles = true;
+      mockSources();
+      const loader = new DomainLoader({ retries: 0, minDomainCount: 1000 });
+
+      await expect(loader.load()).rejects.toThrow(`Only ${DOMAIN_SOURCES.length} domains loaded (minDomainCount: 1000)`);
+    });
+
+    it('should fetch from the sources when the local file is too small', async () => {
+      mockSources();
+      const loader = new DomainLoader({ retries: 0, minDomainCount: 10_000_000 });
+
+      await expect(loader.load()).rejects.toThrow(DomainLoadError);
+      expect(global.fetch).toHaveBeenCalledTimes(DOMAIN_SOURCES.length);
+    });
+
+    it('should keep the cached list when a reload lacks coverage', async () => {
+      mockHideDataFiles = true;
+      mockSources();
+      const loader = new DomainLoader({ retries: 0, minSourcesRequired: 3 });
+      const domains = await loader.load();
+
+      jest.mocked(global.fetch).mockRestore();
+      mockSources(Object.fromEntries(DOMAIN_SOURCES.slice(2).map((source) => [source.key, 500])));
+      await expect(loader.reload()).rejects.toThrow(DomainLoadError);
+
+      expect(loader.getCached()).toBe(domains);
+      expect(loader.getLoadReport()!.success).toBe(false);
+    });
+  });
+
+  it('should be available on guards', async () => {
+    const guard = createGuard();
+    await guard.initialize();
+    expect(guard.getLoadReport()).toMatchObject({ success: true, origin: 'file' });
+    expect(createGuard({ domains: ['temp.com'] }).getLoadReport()).toBeNull();
+  });
+});
@@ -7,6 +7,7 @@ import {
   getCachedDomains,
   isDomainsLoaded,
   clearCache,
+  reloadDomains,
 } from '../src/data/loader';
 
 describe('Domain Loader', () => {
@@ -83,6 +84,21 @@ describe('Domain Loader', () => {
     }, 30000);
   });
 
+  describe('reloadDomains', () => {
+    it('should replace the cached list with a fresh copy from the sources', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(global, 'fetch').mockImplementation(async () => new Response('0-180.com\nreloaded-temp.com'));
+      const domains1 = await loadDomains();
+      const domains2 = await reloadDomains();
+
+      expect(domains1.length).toBeGreaterThan(100000);
+      expect(domains2).toEqual(['0-180.com', 'reloaded-temp.com']);
+      expect(getCachedDomains()).toBe(domains2);
+      expect(await loadDomains()).toBe(domains2);
+      jest.restoreAllMocks();
+    }, 30000);
+  });
+
   describe('clearCache', () => {
     it('should clear cached domains', async () => {
       await loadDomains();
@@ -92,6 +108,29 @@ describe('Domain Loader', () => {
       expect(isDomainsLoaded()).toBe(false);
       expect(getCachedDomains()).toBeNull();
     }, 30000);
+
+    it('should discard a reload that finishes after clearing', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      // Hold the stale reload's fetches until the loader is cleared
+      const pending: Array<(response: Response) => void> = [];
+      const fetchMock = jest.spyOn(global, 'fetch').mockImplementation(() => new Promise((resolve) => {
+        pending.push(resolve);
+      }));
+      await loadDomains();
+      const stale = reloadDomains();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      clearCache();
+      fetchMock.mockImplementation(async () => new Response('fresh-temp.com'));
+      const fresh = reloadDomains();
+      expect(fresh).not.toBe(stale);
+      pending.forEach((respond) => respond(new Response('stale-temp.com')));
+
+      await expect(stale).rejects.toThrow('Load discarded because the loader was cleared');
+      expect(await fresh).toEqual(['fresh-temp.com']);
+      expect(getCachedDomains()).toEqual(['fresh-temp.com']);
+      jest.restoreAllMocks();
+    }, 30000);
   });
 });
 
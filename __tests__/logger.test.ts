@@ -0,0 +1,126 @@
+/**
+ * Tests for the pluggable logger
+ */
+
+import { DomainLoader } from '../src/data/loader';
+import { DOMAIN_SOURCES } from '../src/data/sources';
+import { createGuard } from '../src/guard';
+import { Logger, consoleLogger, resolveLogger, silentLogger } from '../src/logger';
+
+/**
+ * Set to make the bundled data files invisible, so loads fall back to the remote sources
+ */
+let mockHideDataFiles = false;
+
+jest.mock('fs', () => {
+  const actual = jest.requireActual('fs');
+  return { ...actual, existsSync: (path: string) => !mockHideDataFiles && actual.existsSync(path) };
+});
+
+function createLogger(): jest.Mocked<Logger> {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+describe('Logger', () => {
+  let consoleSpies: jest.SpyInstance[];
+
+  beforeEach(() => {
+    consoleSpies = (['debug', 'log', 'warn', 'error'] as const).map((method) =>
+      jest.spyOn(console, method).mockImplementation(() => undefined)
+    );
+  });
+
+  afterEach(() => {
+    mockHideDataFiles = false;
+    jest.restoreAllMocks();
+  });
+
+  describe('resolveLogger', () => {
+    it('should default to the console', () => {
+      expect(resolveLogger()).toBe(consoleLogger);
+    });
+
+    it('should use the given logger', () => {
+      const logger = createLogger();
+      expect(resolveLogger({ logger })).toBe(logger);
+    });
+
+    it('should prefer silent mode over a logger', () => {
+      expect(resolveLogger({ logger: createLogger(), silent: true })).toBe(silentLogger);
+    });
+  });
+
+  describe('DomainLoader', () => {
+    it('should send load messages to the logger instead of the console', async () => {
+      const logger = createLogger();
+      await new DomainLoader({ logger }).load();
+
+      expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('domains from local binary snapshot'));
+      for (const spy of consoleSpies) {
+        expect(spy).not.toHaveBeenCalled();
+      }
+    });
+
+    it('should log nothing in silent mode', async () => {
+      await new DomainLoader({ silent: true, minSources: 2 }).load();
+
+      for (const spy of consoleSpies) {
+        expect(spy).not.toHaveBeenCalled();
+      }
+    });
+
+    it('should report failing sources at warn level', async () => {
+      mockHideDataFiles = true;
+      const failing = DOMAIN_SOURCES[0];
+      jest.spyOn(global, 'fetch').mockImplementation(async (input) => {
+        if (String(input) === failing.url) {
+          return new Response('unavailable', { status: 503 });
+        }
+        return new Response(JSON.stringify(['remote-temp.com']), { status: 200 });
+      });
+      const logger = createLogger();
+
+      await new DomainLoader({ retries: 0, logger }).load();
+
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining(`"${failing.key}"`));
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('HTTP 503'));
+    });
+
+    it('should switch loggers at runtime', async () => {
+      const loader = new DomainLoader();
+      const logger = createLogger();
+      loader.setLogger(logger);
+
+      expect(loader.getLogger()).toBe(logger);
+      await loader.load();
+      expect(logger.info).toHaveBeenCalled();
+    });
+
+    it('should log listener errors through the logger', () => {
+      const logger = createLogger();
+      const loader = new DomainLoader({ logger });
+      loader.events.on('load:start', () => {
+        throw new Error('broken hook');
+      });
+
+      loader.events.emit('load:start', { refresh: false });
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('load:start'), expect.any(Error));
+    });
+  });
+
+  describe('EmailGuard', () => {
+    it('should log failed refreshes through the loader logger', async () => {
+      mockHideDataFiles = true;
+      jest.spyOn(global, 'fetch').mockRejectedValue(new Error('offline'));
+      const logger = createLogger();
+      const guard = createGuard({ retries: 0, logger });
+
+      expect(await guard.refresh()).toBe(false);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Domain list refresh failed'));
+      for (const spy of consoleSpies) {
+        expect(spy).not.toHaveBeenCalled();
+      }
+    });
+  });
+});
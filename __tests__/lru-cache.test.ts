@@ -0,0 +1,133 @@
+/**
+ * Tests for the LRU result cache and cache stats
+ */
+
+import { LRUCache, ResultCache } from '../src/utils/lru-cache';
+import { createGuard } from '../src/guard';
+import type { CacheEvictEvent } from '../src/events';
+
+describe('LRUCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should evict the least recently used entry', () => {
+    const onEvict = jest.fn();
+    const cache = new LRUCache<number>({ maxSize: 2, onEvict });
+    cache.set('a.com', 1);
+    cache.set('b.com', 2);
+    // A hit makes a.com the most recently used entry
+    expect(cache.get('a.com')).toBe(1);
+    cache.set('c.com', 3);
+
+    expect(cache.get('b.com')).toBeUndefined();
+    expect(cache.get('a.com')).toBe(1);
+    expect(cache.get('c.com')).toBe(3);
+    expect(onEvict).toHaveBeenCalledWith('b.com', 'capacity');
+    expect(cache.size).toBe(2);
+  });
+
+  it('should not evict when overwriting an existing key', () => {
+    const onEvict = jest.fn();
+    const cache = new LRUCache<number>({ maxSize: 2, onEvict });
+    cache.set('a.com', 1);
+    cache.set('b.com', 2);
+    cache.set('a.com', 3);
+
+    expect(cache.get('a.com')).toBe(3);
+    expect(cache.size).toBe(2);
+    expect(onEvict).not.toHaveBeenCalled();
+  });
+
+  it('should expire entries after the ttl', () => {
+    jest.useFakeTimers();
+    const onEvict = jest.fn();
+    const cache = new LRUCache<boolean>({ maxSize: 10, ttl: 1000, onEvict });
+    cache.set('a.com', true);
+
+    jest.advanceTimersByTime(999);
+    expect(cache.get('a.com')).toBe(true);
+    jest.advanceTimersByTime(1);
+    expect(cache.get('a.com')).toBeUndefined();
+    expect(onEvict).toHaveBeenCalledWith('a.com', 'expired');
+    expect(cache.size).toBe(0);
+  });
+
+  it('should cache nothing with maxSize 0', () => {
+    const cache = new LRUCache<boolean>({ maxSize: 0 });
+    cache.set('a.com', true);
+    expect(cache.get('a.com')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+});
+
+describe('Guard cache', () => {
+  it('should count hits, misses and evictions', () => {
+    const guard = createGuard({ domains: ['temp.com'], cache: { maxSize: 2 } });
+
+    guard.isTempEmail('user@temp.com');
+    guard.isTempEmail('user@temp.com');
+    guard.isTempEmail('user@example.com');
+    guard.isTempEmail('user@example.org');
+
+    expect(guard.getCacheStats()).toEqual({ hits: 1, misses: 3, evictions: 1, size: 2, hitRate: 0.25 });
+  });
+
+  it('should keep recently hit domains cached', () => {
+    const guard = createGuard({ domains: ['temp.com'], cache: { maxSize: 2 } });
+    const evictions: CacheEvictEvent[] = [];
+    guard.on('cache:evict', (event) => evictions.push(event));
+
+    guard.isTempEmail('user@temp.com');
+    guard.isTempEmail('user@example.com');
+    guard.isTempEmail('user@temp.com');
+    guard.isTempEmail('user@example.org');
+
+    expect(evictions).toEqual([{ cache: 'result', domain: 'example.com', reason: 'capacity' }]);
+  });
+
+  it('should expire verdicts after the ttl', () => {
+    jest.useFakeTimers();
+    try {
+      const guard = createGuard({ domains: ['temp.com'], cache: { ttl: 60000 } });
+      guard.isTempEmail('user@temp.com');
+      jest.advanceTimersByTime(60000);
+      guard.isTempEmail('user@temp.com');
+
+      expect(guard.getCacheStats()).toMatchObject({ hits: 0, misses: 2, evictions: 1 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should use a custom store', () => {
+    const entries = new Map<string, boolean>();
+    const store: ResultCache<boolean> = {
+      get: (key) => entries.get(key),
+      set: (key, value) => {
+        entries.set(key, value);
+      },
+      clear: () => entries.clear(),
+      get size() {
+        return entries.size;
+      },
+    };
+    const guard = createGuard({ domains: ['temp.com'], cache: { store } });
+
+    expect(guard.isTempEmail('user@temp.com')).toBe(true);
+    expect(entries.get('temp.com')).toBe(true);
+    expect(guard.isTempEmail('user@temp.com')).toBe(true);
+    expect(guard.getCacheStats()).toMatchObject({ hits: 1, misses: 1, size: 1 });
+
+    guard.setDenylist(['blocked.com']);
+    expect(entries.size).toBe(0);
+  });
+
+  it('should reset the counters but keep the entries', () => {
+    const guard = createGuard({ domains: ['temp.com'] });
+    guard.isTempEmail('user@temp.com');
+    guard.resetCacheStats();
+
+    expect(guard.getCacheStats()).toEqual({ hits: 0, misses: 0, evictions: 0, size: 1, hitRate: 0 });
+  });
+});
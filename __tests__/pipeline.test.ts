@@ -0,0 +1,82 @@
+/**
+ * Tests for the async detection pipeline
+ */
+
+import * as dnsDetector from '../src/utils/dns-detector';
+import { createGuard } from '../src/guard';
+import { matchDisposableKeyword } from '../src/utils/heuristics';
+
+describe('Detection pipeline', () => {
+  const guard = createGuard({ domains: ['tempmail.com'], allow: ['partner.io'] });
+  let mxSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mxSpy = jest.spyOn(dnsDetector, 'getDisposableMXMatch').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    mxSpy.mockRestore();
+  });
+
+  it('should report the list stage for listed domains', async () => {
+    const result = await guard.validateEmailAsync('user@tempmail.com');
+    expect(result.isTempEmail).toBe(true);
+    expect(result.stage).toBe('list');
+    expect(mxSpy).not.toHaveBeenCalled();
+  });
+
+  it('should fall through to the MX stage for unlisted domains', async () => {
+    mxSpy.mockResolvedValue('mx.yopmail.com');
+
+    const result = await guard.validateEmailAsync('user@unlisted-domain.com');
+    expect(result.isTempEmail).toBe(true);
+    expect(result.stage).toBe('mx');
+    expect(result.error).toBe('Email is from a temporary email service');
+  });
+
+  it('should report no stage when nothing flags the address', async () => {
+    const result = await guard.validateEmailAsync('user@company.com');
+    expect(result.isTempEmail).toBe(false);
+    expect(result.stage).toBeNull();
+  });
+
+  it('should not let later stages override the allowlist', async () => {
+    mxSpy.mockResolvedValue('mx.yopmail.com');
+
+    const result = await guard.validateEmailAsync('user@partner.io');
+    expect(result.isTempEmail).toBe(false);
+    expect(result.stage).toBe('list');
+  });
+
+  it('should run heuristics only when configured', async () => {
+    expect(await guard.isTempEmailAsync('user@my-tempmail-box.xyz')).toBe(false);
+    expect(await guard.isTempEmailAsync('user@my-tempmail-box.xyz', {
+      stages: ['list', 'mx', 'heuristics'],
+    })).toBe(true);
+  });
+
+  it('should skip stages that exceed their timeout', async () => {
+    mxSpy.mockReturnValue(new Promise(() => {}));
+
+    const result = await guard.validateEmailAsync('user@my-trashmail.xyz', {
+      stages: ['list', 'mx', 'heuristics'],
+      timeouts: { mx: 20 },
+    });
+    expect(result.timedOutStages).toEqual(['mx']);
+    expect(result.stage).toBe('heuristics');
+    expect(result.isTempEmail).toBe(true);
+  });
+
+  it('should return format errors without running stages', async () => {
+    const result = await guard.validateEmailAsync('invalid-email');
+    expect(result.isValid).toBe(false);
+    expect(mxSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('matchDisposableKeyword', () => {
+  it('should match disposable keywords in domain names', () => {
+    expect(matchDisposableKeyword('my-tempmail-box.xyz')).toBe('tempmail');
+    expect(matchDisposableKeyword('temple.edu')).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for source provenance index
+ */
+
+import { SourceIndex } from '../src/data/provenance';
+
+describe('SourceIndex', () => {
+  it('should record the sources that listed a domain', () => {
+    const index = SourceIndex.forSources(['primary', 'detector', 'ivolo']);
+    index.add('tempmail.com', 'primary');
+    index.add('tempmail.com', 'ivolo');
+    index.add('trash.io', 'detector');
+
+    expect(index.getSources('tempmail.com')).toEqual(['primary', 'ivolo']);
+    expect(index.getSources('TRASH.io')).toEqual(['detector']);
+  });
+
+  it('should return an empty array for unknown domains', () => {
+    const index = SourceIndex.forSources(['primary']);
+    expect(index.getSources('gmail.com')).toEqual([]);
+  });
+
+  it('should ignore unknown sources', () => {
+    const index = SourceIndex.forSources(['primary']);
+    index.add('tempmail.com', 'unknown');
+    expect(index.getSources('tempmail.com')).toEqual([]);
+  });
+
+  describe('serialization', () => {
+    const domains = ['a.com', 'b.com', 'c.com'];
+
+    it('should round-trip through toData/fromData', () => {
+      const index = SourceIndex.forSources(['primary', 'detector', 'ivolo', 'martenson', 'mailchecker']);
+      index.add('a.com', 'primary');
+      index.add('a.com', 'mailchecker');
+      index.add('c.com', 'detector');
+
+      const data = index.toData(domains);
+      expect(data.width).toBe(2);
+      expect(data.masks).toHaveLength(6);
+
+      const restored = SourceIndex.fromData(domains, JSON.parse(JSON.stringify(data)));
+      expect(restored).not.toBeNull();
+      expect(restored!.getSources('a.com')).toEqual(['primary', 'mailchecker']);
+      expect(restored!.getSources('b.com')).toEqual([]);
+      expect(restored!.getSources('c.com')).toEqual(['detector']);
+    });
+
+    it('should reject data written for a different list', () => {
+      const data = SourceIndex.forSources(['primary']).toData(domains);
+      expect(SourceIndex.fromData(['a.com'], data)).toBeNull();
+      expect(SourceIndex.fromData(domains, { ...data, version: 99 })).toBeNull();
+    });
+  });
+});
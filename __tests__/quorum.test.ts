@@ -0,0 +1,102 @@
+/**
+ * Tests for source quorum filtering
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NeverBlockList } from '../src/data/integrity';
+import { SourceIndex } from '../src/data/provenance';
+import { applyQuorum, hasQuorum } from '../src/data/quorum';
+import { encodeSnapshot } from '../src/data/snapshot';
+import { createGuard } from '../src/guard';
+
+describe('Source quorum', () => {
+  const domains = ['a.com', 'b.com', 'c.com'];
+  let sources: SourceIndex;
+
+  beforeEach(() => {
+    sources = SourceIndex.forSources(['primary', 'detector', 'sajjadh47']);
+    sources.add('a.com', 'primary');
+    sources.add('a.com', 'detector');
+    sources.add('a.com', 'sajjadh47');
+    sources.add('b.com', 'primary');
+    sources.add('b.com', 'detector');
+    sources.add('c.com', 'sajjadh47');
+  });
+
+  describe('hasQuorum', () => {
+    it('should only be active for meaningful rules', () => {
+      expect(hasQuorum({})).toBe(false);
+      expect(hasQuorum({ minSources: 1 })).toBe(false);
+      expect(hasQuorum({ minSources: 2 })).toBe(true);
+      expect(hasQuorum({ minScore: 1 })).toBe(true);
+    });
+  });
+
+  describe('applyQuorum', () => {
+    it('should keep domains listed by at least minSources sources', () => {
+      expect(applyQuorum(domains, sources, { minSources: 2 })).toEqual(['a.com', 'b.com']);
+      expect(applyQuorum(domains, sources, { minSources: 3 })).toEqual(['a.com']);
+    });
+
+    it('should keep domains whose weighted score passes minScore', () => {
+      const sourceWeights = { detector: 0.5, sajjadh47: 0.25 };
+      // a.com = 1 + 0.5 + 0.25, b.com = 1 + 0.5, c.com = 0.25
+      expect(applyQuorum(domains, sources, { sourceWeights, minScore: 1.5 })).toEqual(['a.com', 'b.com']);
+      expect(applyQuorum(domains, sources, { sourceWeights, minScore: 1.6 })).toEqual(['a.com']);
+    });
+
+    it('should require both rules when both are set', () => {
+      expect(applyQuorum(domains, sources, { minSources: 2, minScore: 3 })).toEqual(['a.com']);
+    });
+  });
+
+  describe('getQuorumReport', () => {
+    it('should count domains kept at each level', () => {
+      expect(sources.getQuorumReport()).toEqual([
+        { minSources: 1, domains: 3 },
+        { minSources: 2, domains: 2 },
+        { minSources: 3, domains: 1 },
+      ]);
+    });
+  });
+
+  describe('bundled list', () => {
+    it('should apply a quorum to the bundled list through its snapshot provenance', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const neverBlock = new NeverBlockList();
+      // Without the never-block entries the loader would drop
+      const bundled = (JSON.parse(readFileSync(join(__dirname, '../data/all-domains.json'), 'utf-8')) as string[])
+        .filter((domain) => !neverBlock.getProtected(domain));
+      // Every domain from one source, every other domain from a second one too
+      const bundledSources = SourceIndex.forSources(['primary', 'detector']);
+      bundled.forEach((domain, i) => {
+        bundledSources.add(domain, 'primary');
+        if (i % 2 === 0) {
+          bundledSources.add(domain, 'detector');
+        }
+      });
+      const dir = mkdtempSync(join(tmpdir(), 'temp-email-guard-'));
+      const dataFile = join(dir, 'all-domains.bin');
+      writeFileSync(dataFile, encodeSnapshot(bundled, { sources: bundledSources }));
+
+      try {
+        const guard = createGuard({ dataFile, minSources: 2 });
+        await guard.initialize();
+
+        expect(guard.getDomains()).toHaveLength(Math.ceil(bundled.length / 2));
+        expect(guard.isTempEmail(`user@${bundled[0]}`)).toBe(true);
+        expect(guard.isTempEmail(`user@${bundled[1]}`)).toBe(false);
+        expect(guard.getQuorumReport()).toEqual([
+          { minSources: 1, domains: bundled.length },
+          { minSources: 2, domains: Math.ceil(bundled.length / 2) },
+        ]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+      }
+    });
+  });
+});
+
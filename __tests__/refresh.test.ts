@@ -0,0 +1,122 @@
+/**
+ * Tests for background refresh of the domain list
+ */
+
+import { DomainLoader } from '../src/data/loader';
+import { createGuard } from '../src/guard';
+
+/**
+ * Loader serving a scripted sequence of lists (an Error entry makes that reload fail)
+ */
+class ScriptedLoader extends DomainLoader {
+  private cached: readonly string[] | null = null;
+
+  constructor(private readonly lists: Array<readonly string[] | Error>) {
+    super();
+  }
+
+  async load(): Promise<readonly string[]> {
+    return this.cached || this.reload();
+  }
+
+  async reload(): Promise<readonly string[]> {
+    const next = this.lists.shift();
+    if (!next || next instanceof Error) {
+      throw next || new Error('No more lists');
+    }
+    this.cached = next;
+    return next;
+  }
+
+  getCached(): readonly string[] | null {
+    return this.cached;
+  }
+}
+
+describe('Domain list refresh', () => {
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+    jest.useRealTimers();
+  });
+
+  it('should swap in the reloaded list and clear the result cache', async () => {
+    const guard = createGuard({ loader: new ScriptedLoader([['old-temp.com'], ['new-temp.com']]) });
+    await guard.initialize();
+    expect(guard.isTempEmail('user@old-temp.com')).toBe(true);
+    expect(guard.isTempEmail('user@new-temp.com')).toBe(false);
+
+    expect(await guard.refresh()).toBe(true);
+    expect(guard.isTempEmail('user@old-temp.com')).toBe(false);
+    expect(guard.isTempEmail('user@new-temp.com')).toBe(true);
+    expect(guard.getDomains()).toEqual(['new-temp.com']);
+  });
+
+  it('should keep the old list when a refresh fails', async () => {
+    const guard = createGuard({ loader: new ScriptedLoader([['old-temp.com'], new Error('network down')]) });
+    await guard.initialize();
+
+    expect(await guard.refresh()).toBe(false);
+    expect(guard.isTempEmail('user@old-temp.com')).toBe(true);
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('network down'));
+  });
+
+  it('should never expose a partial list to concurrent checks', async () => {
+    const guard = createGuard({ loader: new ScriptedLoader([['a-temp.com'], ['a-temp.com', 'b-temp.com']]) });
+    await guard.initialize();
+
+    const refreshing = guard.refresh();
+    // The swap happens after the reload resolves, checks in between see the old list
+    expect(guard.getDomains()).toEqual(['a-temp.com']);
+    expect(guard.isTempEmail('user@a-temp.com')).toBe(true);
+    await refreshing;
+    expect(guard.getDomains()).toEqual(['a-temp.com', 'b-temp.com']);
+  });
+
+  it('should share a refresh that is already running', async () => {
+    const loader = new ScriptedLoader([['a-temp.com'], ['b-temp.com'], ['c-temp.com']]);
+    const guard = createGuard({ loader });
+    await guard.initialize();
+
+    const [first, second] = await Promise.all([guard.refresh(), guard.refresh()]);
+    expect(first && second).toBe(true);
+    expect(guard.getDomains()).toEqual(['b-temp.com']);
+  });
+
+  it('should not refresh fixed domain lists', async () => {
+    const guard = createGuard({ domains: ['tempmail.com'] });
+    expect(await guard.refresh()).toBe(false);
+    expect(guard.isTempEmail('user@tempmail.com')).toBe(true);
+  });
+
+  it('should refresh on the configured interval', async () => {
+    jest.useFakeTimers();
+    const guard = createGuard({
+      loader: new ScriptedLoader([['a-temp.com'], ['b-temp.com'], new Error('timeout'), ['c-temp.com']]),
+      refreshInterval: 60000,
+    });
+    try {
+      await guard.initialize();
+
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(guard.getDomains()).toEqual(['b-temp.com']);
+
+      // Failed refresh keeps the list, the next one succeeds
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(guard.getDomains()).toEqual(['b-temp.com']);
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(guard.getDomains()).toEqual(['c-temp.com']);
+
+      guard.setRefreshInterval(null);
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(guard.getDomains()).toEqual(['c-temp.com']);
+    } finally {
+      guard.setRefreshInterval(null);
+    }
+  });
+});
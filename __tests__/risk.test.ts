@@ -0,0 +1,104 @@
+/**
+ * Tests for risk scoring
+ */
+
+import * as dnsDetector from '../src/utils/dns-detector';
+import { createGuard } from '../src/guard';
+import { SourceIndex } from '../src/data/provenance';
+import { looksRandom, scoreSignals, createSignal, sourceAgreementSignal } from '../src/risk';
+
+describe('Risk scoring', () => {
+  describe('looksRandom', () => {
+    it('should flag machine generated local parts', () => {
+      expect(looksRandom('x7kq9z2mw')).toBe(true);
+      expect(looksRandom('qwrtzplkab')).toBe(true);
+    });
+
+    it('should not flag ordinary local parts', () => {
+      expect(looksRandom('john')).toBe(false);
+      expect(looksRandom('john1985smith')).toBe(false);
+      expect(looksRandom('firstname.lastname')).toBe(false);
+      expect(looksRandom('jane+newsletter')).toBe(false);
+    });
+  });
+
+  describe('scoreSignals', () => {
+    it('should map scores to bands and actions', () => {
+      expect(scoreSignals([]).band).toBe('low');
+      expect(scoreSignals([createSignal('subdomain-match', '')])).toMatchObject({ score: 45, band: 'medium', action: 'verify' });
+      expect(scoreSignals([createSignal('list-hit', '')])).toMatchObject({ score: 60, band: 'high', action: 'block' });
+    });
+
+    it('should clamp the score to 0-100', () => {
+      const signals = [createSignal('denylisted', ''), createSignal('list-hit', '')];
+      expect(scoreSignals(signals).score).toBe(100);
+      expect(scoreSignals([createSignal('allowlisted', '')]).score).toBe(0);
+    });
+
+    it('should use configured thresholds and weights', () => {
+      const options = { thresholds: { high: 90 }, weights: { 'list-hit': 70 } };
+      expect(scoreSignals([createSignal('list-hit', '', options)], options)).toMatchObject({ score: 70, band: 'medium' });
+    });
+
+    it('should weigh additional agreeing sources', () => {
+      expect(sourceAgreementSignal(1)).toBeNull();
+      expect(sourceAgreementSignal(3)!.weight).toBe(10);
+      expect(sourceAgreementSignal(9)!.weight).toBe(20);
+    });
+  });
+
+  describe('EmailGuard.assessEmail', () => {
+    const guard = createGuard({ domains: ['tempmail.com'], allow: ['partner.tk'] });
+
+    it('should score exact list hits as high risk', () => {
+      const result = guard.assessEmail('user@tempmail.com');
+      expect(result.band).toBe('high');
+      expect(result.signals.map((signal) => signal.name)).toEqual(['list-hit']);
+    });
+
+    it('should score subdomain matches lower than exact hits', () => {
+      const result = guard.assessEmail('user@mx.tempmail.com');
+      expect(result.score).toBe(45);
+      expect(result.signals[0]).toMatchObject({ name: 'subdomain-match', detail: 'parent domain tempmail.com is listed' });
+    });
+
+    it('should combine weaker signals', () => {
+      const result = guard.assessEmail('x7kq9z2mw@unknown.tk');
+      expect(result.signals.map((signal) => signal.name)).toEqual(['risky-tld', 'random-local-part']);
+      expect(result.score).toBe(30);
+      expect(result.action).toBe('verify');
+    });
+
+    it('should cancel signals for allowlisted domains', () => {
+      expect(guard.assessEmail('x7kq9z2mw@partner.tk').score).toBe(0);
+    });
+
+    it('should score clean addresses as low risk', () => {
+      expect(guard.assessEmail('jane@company.com')).toEqual({ score: 0, band: 'low', action: 'allow', signals: [] });
+    });
+  });
+
+  describe('EmailGuard.assessEmailAsync', () => {
+    it('should add the MX pattern signal', async () => {
+      const spy = jest.spyOn(dnsDetector, 'getDisposableMXMatch').mockResolvedValue('mx.yopmail.com');
+      try {
+        const guard = createGuard({ domains: [] });
+        const result = await guard.assessEmailAsync('user@unlisted.com');
+        expect(result.signals.map((signal) => signal.name)).toEqual(['mx-pattern']);
+        expect(result.band).toBe('medium');
+      } finally {
+        spy.mockRestore();
+      }
+    });
+  });
+
+  describe('source agreement', () => {
+    it('should add agreement when provenance is available', () => {
+      const sources = SourceIndex.forSources(['primary', 'detector', 'ivolo']);
+      sources.add('tempmail.com', 'primary');
+      sources.add('tempmail.com', 'detector');
+      const signal = sourceAgreementSignal(sources.getSourceCount('tempmail.com'));
+      expect(signal).toMatchObject({ name: 'source-agreement', weight: 5, detail: 'listed by 2 sources' });
+    });
+  });
+});
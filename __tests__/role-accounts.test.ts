@@ -0,0 +1,68 @@
+/**
+ * Tests for role account detection
+ */
+
+import { RoleAccounts } from '../src/utils/role-accounts';
+import { createGuard } from '../src/guard';
+
+describe('RoleAccounts', () => {
+  const roles = new RoleAccounts();
+
+  it('should match common role and system mailboxes', () => {
+    expect(roles.match('admin')).toBe('admin');
+    expect(roles.match('postmaster')).toBe('postmaster');
+    expect(roles.match('abuse')).toBe('abuse');
+    expect(roles.match('info')).toBe('info');
+  });
+
+  it('should ignore case, separators, tags and trailing digits', () => {
+    expect(roles.match('No-Reply')).toBe('noreply');
+    expect(roles.match('no_reply')).toBe('noreply');
+    expect(roles.match('do.not.reply')).toBe('donotreply');
+    expect(roles.match('support+billing')).toBe('support');
+    expect(roles.match('info2')).toBe('info');
+    expect(roles.match('"admin"')).toBe('admin');
+  });
+
+  it('should not match personal mailboxes', () => {
+    expect(roles.match('john.smith')).toBeNull();
+    expect(roles.match('administrator.jane')).toBeNull();
+    expect(roles.match('')).toBeNull();
+  });
+
+  it('should only use the configured locales', () => {
+    expect(roles.match('vertrieb')).toBeNull();
+    const german = new RoleAccounts({ locales: ['en', 'de'] });
+    expect(german.match('vertrieb')).toBe('vertrieb');
+    expect(german.match('keine-antwort')).toBe('keineantwort');
+    expect(new RoleAccounts({ locales: ['de'] }).match('admin')).toBeNull();
+  });
+
+  it('should add configured accounts', () => {
+    const custom = new RoleAccounts({ accounts: ['Trials', 'procurement'] });
+    expect(custom.match('trials')).toBe('trials');
+    expect(custom.match('admin')).toBe('admin');
+  });
+});
+
+describe('EmailGuard role accounts', () => {
+  const guard = createGuard({ domains: ['tempmail.com'], roleAccounts: { locales: ['en', 'fr'] } });
+
+  it('should detect role accounts on any domain', () => {
+    expect(guard.isRoleAccount('noreply@acme.com')).toBe(true);
+    expect(guard.isRoleAccount('ventes@acme.fr')).toBe(true);
+    expect(guard.isRoleAccount('jane@acme.com')).toBe(false);
+    expect(guard.isRoleAccount('not-an-email')).toBe(false);
+  });
+
+  it('should flag role accounts in validation results without invalidating them', () => {
+    expect(guard.validateEmail('admin@acme.com')).toMatchObject({ isValid: true, isTempEmail: false, isRoleAccount: true });
+    expect(guard.validateEmail('jane@acme.com').isRoleAccount).toBe(false);
+    expect(guard.validateEmail('admin@').isRoleAccount).toBe(false);
+  });
+
+  it('should flag role accounts in async validation results', async () => {
+    const result = await guard.validateEmailAsync('postmaster@acme.com', { stages: ['list'] });
+    expect(result.isRoleAccount).toBe(true);
+  });
+});
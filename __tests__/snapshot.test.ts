@@ -0,0 +1,166 @@
+/**
+ * Tests for the binary snapshot format and loading it at runtime
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NeverBlockList } from '../src/data/integrity';
+import { DomainLoader } from '../src/data/loader';
+import { SNAPSHOT_VERSION, decodeSnapshot, encodeSnapshot } from '../src/data/snapshot';
+import { SourceIndex } from '../src/data/provenance';
+import { DOMAIN_SOURCE_KEYS } from '../src/data/sources';
+import { createGuard } from '../src/guard';
+import { FrozenDomainTrie } from '../src/utils/frozen-trie';
+
+let dir: string;
+
+// The shipped snapshot predates provenance, the next `npm run aggregate` adds it (see AGGREGATION.md)
+const bundled = decodeSnapshot(readFileSync(join(__dirname, '../data/all-domains.bin')));
+const itWithBundledProvenance = bundled.sources ? it : it.skip;
+
+function writeSnapshot(name: string, domains: string[], gzip = false): string {
+  const path = join(dir, name);
+  writeFileSync(path, encodeSnapshot(domains, { gzip }));
+  return path;
+}
+
+describe('Snapshot', () => {
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'temp-email-guard-'));
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('format', () => {
+    const domains = ['*.relay.example', 'mail.tempmail.com', 'tempmail.com', 'tempmail.net', 'xn--mller-kva.de'];
+
+    it('should round-trip domains in order and build their trie', () => {
+      const { domains: decoded, trie } = decodeSnapshot(encodeSnapshot(domains));
+
+      expect(decoded).toEqual(domains);
+      expect(trie.hasDomain('a.b.tempmail.com')).toBe(true);
+      expect(trie.hasDomain('tempmail.org')).toBe(false);
+      expect(trie.hasDomain('relay.example')).toBe(false);
+      expect(trie.findMatch('user.relay.example')).toBe('*.relay.example');
+    });
+
+    it('should round-trip provenance when given', () => {
+      const sources = SourceIndex.forSources(['primary', 'detector']);
+      sources.add('tempmail.com', 'primary');
+      sources.add('tempmail.com', 'detector');
+      sources.add('tempmail.net', 'detector');
+
+      const decoded = decodeSnapshot(encodeSnapshot(domains, { sources, gzip: true })).sources!;
+
+      expect(decoded.getSourceKeys()).toEqual(['primary', 'detector']);
+      expect(decoded.getSources('tempmail.com')).toEqual(['primary', 'detector']);
+      expect(decoded.getSources('tempmail.net')).toEqual(['detector']);
+      expect(decoded.getSources('mail.tempmail.com')).toEqual([]);
+      expect(decodeSnapshot(encodeSnapshot(domains)).sources).toBeNull();
+    });
+
+    it('should store each label once', () => {
+      const many = Array.from({ length: 1000 }, (_, i) => `temp${i % 10}.mail${Math.floor(i / 10)}.com`);
+      const snapshot = encodeSnapshot(many);
+
+      expect(snapshot.length).toBeLessThan(JSON.stringify(many).length / 2);
+      expect(decodeSnapshot(snapshot).domains).toEqual(many);
+    });
+
+    it('should detect gzip-compressed snapshots', () => {
+      const many = Array.from({ length: 1000 }, (_, i) => `temp-${i}.com`);
+      const gzipped = encodeSnapshot(many, { gzip: true });
+
+      expect(gzipped.length).toBeLessThan(encodeSnapshot(many).length);
+      expect(decodeSnapshot(gzipped).domains).toEqual(many);
+    });
+
+    it('should reject other files, other versions and truncated data', () => {
+      const snapshot = encodeSnapshot(domains);
+      const newer = Buffer.from(snapshot);
+      newer.writeUInt16LE(SNAPSHOT_VERSION + 1, 4);
+
+      expect(() => decodeSnapshot(Buffer.from('["tempmail.com"]'))).toThrow('Not a domain snapshot');
+      expect(() => decodeSnapshot(newer)).toThrow(`Unsupported snapshot version ${SNAPSHOT_VERSION + 1}`);
+      expect(() => decodeSnapshot(snapshot.subarray(0, snapshot.length - 2))).toThrow('Truncated domain snapshot');
+    });
+  });
+
+  describe('DomainLoader', () => {
+    it('should prefer the bundled snapshot and match the bundled JSON list', () => {
+      const loader = new DomainLoader();
+      const domains = loader.loadSync();
+      const json: string[] = JSON.parse(readFileSync(join(__dirname, '../data/all-domains.json'), 'utf-8'));
+      const neverBlock = new NeverBlockList();
+      const kept = json.filter((domain) => !neverBlock.getProtected(domain));
+
+      expect(loader.getLoadReport()).toMatchObject({ origin: 'file', file: expect.stringContaining('all-domains.bin'), fileError: null });
+      expect(domains).toEqual(kept);
+      // The prebuilt trie is only dropped while the shipped list still has never-block entries
+      expect(loader.getTrie() === null).toBe(kept.length < json.length);
+    });
+
+    itWithBundledProvenance('should ship provenance in the bundled snapshot', () => {
+      expect(bundled.sources!.getSourceKeys()).toEqual(DOMAIN_SOURCE_KEYS);
+      for (const domain of bundled.domains) {
+        expect(bundled.sources!.getSources(domain).length).toBeGreaterThan(0);
+      }
+    });
+
+    it('should load a snapshot dataFile and hand its trie to the guard', async () => {
+      const dataFile = writeSnapshot('list.bin', ['snapshot-temp.com'], true);
+      const guard = createGuard({ dataFile });
+      const fromDomains = jest.spyOn(FrozenDomainTrie, 'fromDomains');
+
+      await guard.initialize();
+
+      expect(guard.getDomains()).toEqual(['snapshot-temp.com']);
+      expect(guard.checkEmail('user@mx.snapshot-temp.com')).toMatchObject({ matchType: 'subdomain', matchedEntry: 'snapshot-temp.com' });
+      expect(fromDomains).not.toHaveBeenCalled();
+    });
+
+    it('should take provenance from the snapshot', async () => {
+      const sources = SourceIndex.forSources(['primary', 'detector']);
+      sources.add('snapshot-temp.com', 'primary');
+      sources.add('snapshot-temp.com', 'detector');
+      const dataFile = join(dir, 'list.bin');
+      writeFileSync(dataFile, encodeSnapshot(['other-temp.com', 'snapshot-temp.com'], { sources }));
+      const guard = createGuard({ dataFile, minSources: 2 });
+
+      await guard.initialize();
+
+      expect(guard.getDomains()).toEqual(['snapshot-temp.com']);
+      expect(guard.getDomainSources('snapshot-temp.com')).toEqual(['primary', 'detector']);
+      expect(guard.getQuorumReport()).toEqual([
+        { minSources: 1, domains: 1 },
+        { minSources: 2, domains: 1 },
+      ]);
+    });
+
+    it('should drop the prebuilt trie when entries are rejected', () => {
+      const loader = new DomainLoader({ dataFile: writeSnapshot('list.bin', ['gmail.com', 'snapshot-temp.com']) });
+
+      expect(loader.loadSync()).toEqual(['snapshot-temp.com']);
+      expect(loader.getTrie()).toBeNull();
+    });
+
+    it('should fall back to the sources when the snapshot is unreadable', async () => {
+      const dataFile = join(dir, 'broken.bin');
+      writeFileSync(dataFile, 'not a snapshot');
+      const fallback = join(dir, 'fallback.txt');
+      writeFileSync(fallback, 'fallback-temp.com');
+      const loader = new DomainLoader({ dataFile, sources: [fallback] });
+
+      expect(await loader.load()).toEqual(['fallback-temp.com']);
+      expect(loader.getLoadReport()).toMatchObject({ origin: 'remote', fileError: 'Not a domain snapshot' });
+      expect(loader.getTrie()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for configurable data files, custom sources and provider functions
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DomainLoader } from '../src/data/loader';
+import { detectSourceFormat, resolveSources } from '../src/data/sources';
+import { DomainLoadError } from '../src/errors';
+import { createGuard } from '../src/guard';
+
+let dir: string;
+
+function writeList(name: string, content: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, content);
+  return path;
+}
+
+describe('Sources', () => {
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'temp-email-guard-'));
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('resolveSources', () => {
+    it('should detect formats from file extensions', () => {
+      expect(detectSourceFormat('https://example.com/list.JSON?v=2')).toBe('json');
+      expect(detectSourceFormat('/srv/lists/domains.csv')).toBe('csv');
+      expect(detectSourceFormat('https://example.com/blocklist.conf')).toBe('text');
+    });
+
+    it('should default keys and names to the location', () => {
+      expect(resolveSources(['https://example.com/list.json', { url: '/srv/list.txt', key: 'internal', type: 'csv' }])).toEqual([
+        { key: 'https://example.com/list.json', name: 'https://example.com/list.json', url: 'https://example.com/list.json', type: 'json' },
+        { key: 'internal', name: 'internal', url: '/srv/list.txt', type: 'csv' },
+      ]);
+    });
+
+    it('should reject duplicate keys', () => {
+      expect(() => new DomainLoader({ sources: ['/srv/a.txt', { url: '/srv/b.txt', key: '/srv/a.txt' }] })).toThrow(
+        'Duplicate source key "/srv/a.txt"'
+      );
+    });
+  });
+
+  describe('dataFile', () => {
+    it('should load a configured JSON or text file instead of the bundled one', async () => {
+      const jsonLoader = new DomainLoader({ dataFile: writeList('list.json', '["Json-Temp.com"]') });
+      const textLoader = new DomainLoader({ dataFile: writeList('list.txt', '# comment\ntext-temp.com\n') });
+
+      expect(await jsonLoader.load()).toEqual(['json-temp.com']);
+      expect(await textLoader.load()).toEqual(['text-temp.com']);
+      expect(textLoader.getLoadReport()).toMatchObject({ origin: 'file', file: join(dir, 'list.txt') });
+    });
+
+    it('should fall back to the sources when the file is missing', async () => {
+      const loader = new DomainLoader({ dataFile: join(dir, 'missing.json'), sources: [writeList('fallback.txt', 'fallback-temp.com')] });
+
+      expect(await loader.load()).toEqual(['fallback-temp.com']);
+      expect(loader.getLoadReport()).toMatchObject({ origin: 'remote', fileError: `File not found: ${join(dir, 'missing.json')}` });
+    });
+  });
+
+  describe('sources', () => {
+    it('should merge local files in every format, skipping the bundled file', async () => {
+      const loader = new DomainLoader({
+        sources: [
+          { url: writeList('a.json', JSON.stringify({ domains: ['json-temp.com', 'shared-temp.com'] })), key: 'json' },
+          { url: writeList('b.txt', 'text-temp.com\nshared-temp.com'), key: 'text' },
+          { url: writeList('c.csv', 'domain,added\n"csv-temp.com",2024-01-01\nshared-temp.com,2024-02-01\n'), key: 'csv' },
+        ],
+      });
+
+      expect(await loader.load()).toEqual(['csv-temp.com', 'json-temp.com', 'shared-temp.com', 'text-temp.com']);
+      expect(loader.getSourceIndex()!.getSources('shared-temp.com')).toEqual(['json', 'text', 'csv']);
+      expect(loader.getLoadReport()!.sources.map(({ key, ok, status }) => ({ key, ok, status }))).toEqual([
+        { key: 'json', ok: true, status: null },
+        { key: 'text', ok: true, status: null },
+        { key: 'csv', ok: true, status: null },
+      ]);
+    });
+
+    it('should fetch custom URLs', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('url-temp.com'));
+      const loader = new DomainLoader({ sources: ['https://lists.example.com/domains.txt'] });
+
+      expect(await loader.load()).toEqual(['url-temp.com']);
+      expect(fetchSpy).toHaveBeenCalledWith('https://lists.example.com/domains.txt', expect.anything());
+    });
+
+    it('should report unreadable files as failed sources', async () => {
+      const loader = new DomainLoader({ sources: [join(dir, 'missing.txt'), writeList('ok.txt', 'ok-temp.com')] });
+
+      expect(await loader.load()).toEqual(['ok-temp.com']);
+      expect(loader.getLoadReport()!.sources[0]).toMatchObject({ ok: false, error: expect.stringContaining('ENOENT') });
+    });
+  });
+
+  describe('provider', () => {
+    it('should use the provider instead of files and sources', async () => {
+      const provider = jest.fn(async () => new Set(['Provided-Temp.com', 'https://www.other-temp.com/', 'not a domain']));
+      const guard = createGuard({ provider, dataFile: writeList('ignored.txt', 'ignored-temp.com') });
+
+      await guard.initialize();
+
+      expect(provider).toHaveBeenCalledWith(expect.any(AbortSignal));
+      expect(guard.isTempEmail('user@provided-temp.com')).toBe(true);
+      expect(guard.isTempEmail('user@other-temp.com')).toBe(true);
+      expect(guard.isTempEmail('user@ignored-temp.com')).toBe(false);
+      expect(guard.getLoadReport()).toMatchObject({ origin: 'provider', domains: 2, sources: [] });
+    });
+
+    it('should fail the load when the provider fails or returns too few domains', async () => {
+      const failing = new DomainLoader({ provider: async () => Promise.reject(new Error('artifact store down')) });
+      const small = new DomainLoader({ provider: async () => ['one-temp.com'], minDomainCount: 2 });
+
+      await expect(failing.load()).rejects.toThrow('artifact store down');
+      await expect(small.load()).rejects.toThrow(DomainLoadError);
+      expect(small.getLoadReport()!.error).toBe('Only 1 domains loaded (minDomainCount: 2)');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for domain typo suggestions
+ */
+
+import { editDistance, suggestDomainFor } from '../src/utils/suggest';
+import { createGuard } from '../src/guard';
+
+describe('Domain suggestions', () => {
+  describe('editDistance', () => {
+    it('should count edits and adjacent transpositions', () => {
+      expect(editDistance('gmail.com', 'gmail.com')).toBe(0);
+      expect(editDistance('gmial.com', 'gmail.com')).toBe(1);
+      expect(editDistance('yaho.co', 'yahoo.com')).toBe(2);
+      expect(editDistance('', 'abc')).toBe(3);
+    });
+  });
+
+  describe('suggestDomainFor', () => {
+    it('should suggest popular providers', () => {
+      expect(suggestDomainFor('gmial.com')).toBe('gmail.com');
+      expect(suggestDomainFor('yaho.co')).toBe('yahoo.com');
+      expect(suggestDomainFor('hotmail.con')).toBe('hotmail.com');
+    });
+
+    it('should fix mistyped TLDs', () => {
+      expect(suggestDomainFor('example.cmo')).toBe('example.com');
+      expect(suggestDomainFor('example.nte')).toBe('example.net');
+      expect(suggestDomainFor('company.co.ukk')).toBe('company.co.uk');
+    });
+
+    it('should not rewrite real TLDs', () => {
+      for (const domain of ['company.dev', 'openai.ai', 'shop.mx', 'firm.pt', 'site.gr', 'x.hu', 'd.cl', 'abv.bg', 'seznam.cz', 'fastmail.fm']) {
+        expect(suggestDomainFor(domain)).toBeNull();
+      }
+    });
+
+    it('should not suggest for correct or unrelated domains', () => {
+      expect(suggestDomainFor('gmail.com')).toBeNull();
+      expect(suggestDomainFor('example.com')).toBeNull();
+      expect(suggestDomainFor('mycompany.io')).toBeNull();
+      expect(suggestDomainFor('')).toBeNull();
+    });
+
+    it('should not turn short names into other real providers', () => {
+      expect(suggestDomainFor('126.com')).toBeNull();
+      expect(suggestDomainFor('gmx.at')).toBeNull();
+      expect(suggestDomainFor('cox.net')).toBeNull();
+      expect(suggestDomainFor('aim.com')).toBeNull();
+      expect(suggestDomainFor('mail.de')).toBeNull();
+      expect(suggestDomainFor('abc.com')).toBeNull();
+      expect(suggestDomainFor('gmal.com')).toBe('gmail.com');
+      expect(suggestDomainFor('aol.cm')).toBe('aol.com');
+    });
+
+    it('should skip excluded domains', () => {
+      expect(suggestDomainFor('gmial.com', {}, (domain) => domain === 'gmail.com')).not.toBe('gmail.com');
+      expect(suggestDomainFor('example.cmo', {}, (domain) => domain === 'example.com')).toBeNull();
+    });
+
+    it('should use configured domains, TLDs and distance', () => {
+      expect(suggestDomainFor('acme-mial.example', { domains: ['acme-mail.example'] })).toBe('acme-mail.example');
+      expect(suggestDomainFor('gmial.com', { maxDistance: 0 })).toBeNull();
+      expect(suggestDomainFor('example.shpo', { tlds: ['shop'] })).toBe('example.shop');
+      expect(suggestDomainFor('example.cmo', { tldTypos: { cmo: 'co' } })).toBe('example.co');
+    });
+  });
+
+  describe('EmailGuard', () => {
+    const guard = createGuard({ domains: ['gmai.com'], deny: ['ymail.com'] });
+
+    it('should suggest a corrected address', () => {
+      expect(guard.suggestDomain('John@Gmial.com')).toEqual({ domain: 'gmail.com', email: 'John@gmail.com' });
+      expect(guard.suggestDomain('user@gmail.com')).toBeNull();
+      expect(guard.suggestDomain('not-an-email')).toBeNull();
+    });
+
+    it('should never suggest a disposable domain', () => {
+      // "ymail.com" is closer to "ymial.com" but denylisted here
+      expect(guard.suggestDomain('user@ymial.com')?.domain).not.toBe('ymail.com');
+      expect(guard.suggestDomain('user@gmai.co')?.domain).toBe('gmail.com');
+    });
+
+    it('should check candidates without touching the result cache', () => {
+      const fresh = createGuard({ domains: ['gmai.com'] });
+      fresh.suggestDomain('user@gmial.com');
+      fresh.suggestDomain('user@example.cmo');
+
+      expect(fresh.getCacheStats()).toMatchObject({ hits: 0, misses: 0, size: 0 });
+    });
+
+    it('should not suggest anything for webmail providers in the datasets', () => {
+      for (const email of ['user@126.com', 'user@gmx.at', 'user@cox.net', 'user@aim.com']) {
+        expect(guard.suggestDomain(email)).toBeNull();
+        expect(guard.validateEmail(email)).not.toHaveProperty('suggestion');
+      }
+      expect(guard.validateEmail('user@mail.de')).not.toHaveProperty('suggestion');
+      expect(guard.validateEmail('user@abc.com')).not.toHaveProperty('suggestion');
+    });
+
+    it('should not suggest anything for valid ccTLDs and gTLDs', () => {
+      for (const email of ['user@company.dev', 'user@openai.ai', 'user@shop.mx', 'user@seznam.cz', 'user@fastmail.fm']) {
+        expect(guard.validateEmail(email)).not.toHaveProperty('suggestion');
+      }
+    });
+
+    it('should add the suggestion to validation results', () => {
+      expect(guard.validateEmail('user@gmial.com').suggestion).toEqual({ domain: 'gmail.com', email: 'user@gmail.com' });
+      expect(guard.validateEmail('user@gmail.com')).not.toHaveProperty('suggestion');
+      expect(guard.validateEmail('user@gmailcom').suggestion?.domain).toBe('gmail.com');
+    });
+
+    it('should add the suggestion to async validation results', async () => {
+      const result = await guard.validateEmailAsync('user@yaho.co', { stages: ['list'] });
+      expect(result.suggestion?.domain).toBe('yahoo.com');
+    });
+  });
+});
@@ -51,6 +51,38 @@ describe('DomainTrie', () => {
     });
   });
 
+  describe('findMatch', () => {
+    it('should return the exact entry for exact matches', () => {
+      trie.insert('tempmail.com');
+      expect(trie.findMatch('tempmail.com')).toBe('tempmail.com');
+    });
+
+    it('should return the listed parent for subdomain matches', () => {
+      trie.insert('tempmail.com');
+      expect(trie.findMatch('a.b.tempmail.com')).toBe('tempmail.com');
+      expect(trie.findMatch('A.B.TempMail.com')).toBe('tempmail.com');
+    });
+
+    it('should return null when nothing matches', () => {
+      trie.insert('tempmail.com');
+      expect(trie.findMatch('gmail.com')).toBeNull();
+    });
+  });
+
+  describe('wildcards', () => {
+    it('should match subdomains but not the domain itself', () => {
+      trie.insert('*.relay.example');
+      expect(trie.hasDomain('mx.relay.example')).toBe(true);
+      expect(trie.hasDomain('a.b.relay.example')).toBe(true);
+      expect(trie.hasDomain('relay.example')).toBe(false);
+    });
+
+    it('should report the wildcard entry as the match', () => {
+      trie.insert('*.relay.example');
+      expect(trie.findMatch('mx.relay.example')).toBe('*.relay.example');
+    });
+  });
+
   describe('fromDomains', () => {
     it('should create trie from domain array', () => {
       const domains = ['example.com', 'test.com', 'demo.org'];
@@ -4,72 +4,22 @@
  */
 
 import { writeFileSync, readFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { basename, join } from 'path';
+import { DOMAIN_SOURCES, DOMAIN_SOURCE_KEYS, DomainSource } from '../src/data/sources';
+import { SourceIndex } from '../src/data/provenance';
+import { QuorumOptions, applyQuorum, hasQuorum } from '../src/data/quorum';
+import { NeverBlockList, createManifest, signManifest } from '../src/data/integrity';
+import { SNAPSHOT_FILE, encodeSnapshot } from '../src/data/snapshot';
+import { toAsciiDomain } from '../src/utils/idn';
 
-interface DomainSource {
-  name: string;
-  url: string;
-  type: 'json' | 'text' | 'txt';
-  transform?: (data: any) => string[];
+/**
+ * Merged domain list with the sources that listed each domain
+ */
+interface AggregatedDomains {
+  domains: string[];
+  sources: SourceIndex;
 }
 
-const DOMAIN_SOURCES: DomainSource[] = [
-  // Primary source - disposable-email-domains
-  {
-    name: 'disposable-email-domains',
-    url: 'https://raw.githubusercontent.com/disposable-email-domains/disposable-email-domains/main/disposable_email_blocklist.conf',
-    type: 'text',
-  },
-  // IntegerAlex disposable-email-detector (JSON) - Large dataset
-  {
-    name: 'disposable-email-detector',
-    url: 'https://raw.githubusercontent.com/IntegerAlex/disposable-email-detector/refs/heads/main/index.json',
-    type: 'json',
-  },
-  // ivolo disposable-email-domains
-  {
-    name: 'ivolo-disposable',
-    url: 'https://raw.githubusercontent.com/ivolo/disposable-email-domains/master/index.json',
-    type: 'json',
-  },
-  // martenson disposable-email-domains
-  {
-    name: 'martenson-disposable',
-    url: 'https://raw.githubusercontent.com/martenson/disposable-email-domains/master/disposable_email_blocklist.conf',
-    type: 'text',
-  },
-  // Mailchecker
-  {
-    name: 'mailchecker',
-    url: 'https://raw.githubusercontent.com/FGRibreau/mailchecker/master/list.txt',
-    type: 'text',
-  },
-  // sajjadh47 - Over 100k domains, multiple formats
-  {
-    name: 'sajjadh47-disposable',
-    url: 'https://raw.githubusercontent.com/sajjadh47/disposable-email-domains-list/master/domains.json',
-    type: 'json',
-  },
-  // WebSnifferHQ disposable-email-domains
-  {
-    name: 'websniffer-disposable',
-    url: 'https://raw.githubusercontent.com/WebSnifferHQ/disposable-email-domains/main/disposable-email-domains.txt',
-    type: 'text',
-  },
-  // groundcat disposable-email-domain-list (MX validated)
-  {
-    name: 'groundcat-disposable',
-    url: 'https://raw.githubusercontent.com/groundcat/disposable-email-domain-list/master/domains.json',
-    type: 'json',
-  },
-  // disposable/disposable (updated every 24h)
-  {
-    name: 'disposable-main',
-    url: 'https://raw.githubusercontent.com/disposable/disposable-email-domains/master/domains.txt',
-    type: 'text',
-  },
-];
-
 /**
  * Fetch domains from a source
  */
@@ -122,17 +72,17 @@ async function fetchDomainsFromSource(source: DomainSource): Promise<string[]> {
 }
 
 /**
- * Normalize domain
+ * Normalize domain (Unicode domains are converted to punycode)
  */
 function normalizeDomain(domain: string): string {
-  return domain
+  return toAsciiDomain(domain
     .toLowerCase()
     .trim()
     .replace(/^https?:\/\//, '') // Remove http:// or https://
     .replace(/^www\./, '') // Remove www.
     .split('/')[0] // Remove paths
     .split('?')[0] // Remove query strings
-    .split('#')[0]; // Remove fragments
+    .split('#')[0]); // Remove fragments
 }
 
 /**
@@ -145,14 +95,14 @@ function isValidDomain(domain: string): boolean {
   if (domain.includes(' ')) return false;
   
   // Basic domain regex
-  const domainRegex = /^[a-z0-9]([a-z0-9\-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9\-]{0,61}[a-z0-9])?)*\.[a-z]{2,}$/i;
+  const domainRegex = /^[a-z0-9]([a-z0-9\-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9\-]{0,61}[a-z0-9])?)*\.([a-z]{2,}|xn--[a-z0-9\-]+)$/i;
   return domainRegex.test(domain);
 }
 
 /**
  * Aggregate all domains from all sources
  */
-async function aggregateAllDomains(): Promise<string[]> {
+async function aggregateAllDomains(): Promise<AggregatedDomains> {
   console.log('🚀 Starting domain aggregation from multiple sources...\n');
 
   // Fetch from all sources in parallel
@@ -165,31 +115,43 @@ async function aggregateAllDomains(): Promise<string[]> {
 
   console.log(`\n📊 Total domains before deduplication: ${allDomains.length.toLocaleString()}`);
 
-  // Step 1: Normalize all domains
-  const normalizedDomains = allDomains.map(normalizeDomain);
-  console.log(`   After normalization: ${normalizedDomains.length.toLocaleString()} domains`);
+  // Step 1: Normalize all domains (kept per source for provenance)
+  const normalizedResults = results.map((domains) => domains.map(normalizeDomain));
+  console.log(`   After normalization: ${allDomains.length.toLocaleString()} domains`);
 
   // Step 2: Remove duplicates using Set (automatic deduplication)
+  // and record which sources listed each domain
   const uniqueDomains = new Set<string>();
   const invalidDomains: string[] = [];
   const duplicateCount = new Map<string, number>();
-
-  for (const domain of normalizedDomains) {
-    if (isValidDomain(domain)) {
-      // Track duplicates for reporting
-      if (uniqueDomains.has(domain)) {
-        duplicateCount.set(domain, (duplicateCount.get(domain) || 1) + 1);
+  const sources = SourceIndex.forSources(DOMAIN_SOURCE_KEYS);
+
+  normalizedResults.forEach((domains, i) => {
+    for (const domain of domains) {
+      if (isValidDomain(domain)) {
+        // Track duplicates for reporting
+        if (uniqueDomains.has(domain)) {
+          duplicateCount.set(domain, (duplicateCount.get(domain) || 1) + 1);
+        } else {
+          uniqueDomains.add(domain);
+        }
+        sources.add(domain, DOMAIN_SOURCES[i].key);
       } else {
-        uniqueDomains.add(domain);
+        invalidDomains.push(domain);
       }
-    } else {
-      invalidDomains.push(domain);
     }
-  }
+  });
 
   // Step 3: Additional duplicate check - remove any remaining duplicates
+  // and entries that would block a major mail provider
+  const neverBlock = new NeverBlockList();
   const finalUniqueSet = new Set<string>();
+  const protectedDomains: string[] = [];
   for (const domain of uniqueDomains) {
+    if (neverBlock.getProtected(domain) !== null) {
+      protectedDomains.push(domain);
+      continue;
+    }
     finalUniqueSet.add(domain); // Set automatically handles duplicates
   }
 
@@ -200,9 +162,10 @@ async function aggregateAllDomains(): Promise<string[]> {
   const duplicatesRemoved = allDomains.length - finalDomains.length;
   console.log(`   Invalid domains removed: ${invalidDomains.length.toLocaleString()}`);
   console.log(`   Duplicates removed: ${duplicatesRemoved.toLocaleString()}`);
+  console.log(`   Protected domains removed: ${protectedDomains.length.toLocaleString()}${protectedDomains.length ? ` (${protectedDomains.join(', ')})` : ''}`);
   console.log(`✅ Final unique domains: ${finalDomains.length.toLocaleString()}\n`);
 
-  return finalDomains;
+  return { domains: finalDomains, sources };
 }
 
 /**
@@ -214,6 +177,26 @@ function saveDomainsToFile(domains: string[], outputPath: string): void {
   console.log(`✅ Saved ${domains.length.toLocaleString()} domains to ${outputPath}\n`);
 }
 
+/**
+ * Save domains and their provenance as a binary snapshot (label-interned, loaded before the JSON list)
+ * @param gzip - Gzip the snapshot
+ */
+function saveSnapshotToFile(domains: string[], sources: SourceIndex, outputPath: string, gzip: boolean): void {
+  console.log(`💾 Saving to ${outputPath}...`);
+  const snapshot = encodeSnapshot(domains, { gzip, sources });
+  writeFileSync(outputPath, snapshot);
+  console.log(`✅ Saved ${domains.length.toLocaleString()} domains to ${outputPath} (${snapshot.length.toLocaleString()} bytes${gzip ? ', gzip' : ''})\n`);
+}
+
+/**
+ * Save per-domain source membership, aligned with the JSON domain list
+ */
+function saveSourceIndexToFile(domains: string[], sources: SourceIndex, outputPath: string): void {
+  console.log(`💾 Saving to ${outputPath}...`);
+  writeFileSync(outputPath, JSON.stringify(sources.toData(domains)), 'utf-8');
+  console.log(`✅ Saved provenance for ${domains.length.toLocaleString()} domains to ${outputPath}\n`);
+}
+
 /**
  * Save domains to text file
  */
@@ -224,6 +207,32 @@ function saveDomainsToTextFile(domains: string[], outputPath: string): void {
   console.log(`✅ Saved ${domains.length.toLocaleString()} domains to ${outputPath}\n`);
 }
 
+/**
+ * Save the SHA-256 manifest of the generated files, signed if a key is given
+ * @param signingKeyPath - Ed25519 private key (PEM) to sign the manifest with
+ */
+function saveManifestToFile(filePaths: string[], outputPath: string, signingKeyPath?: string): void {
+  console.log(`💾 Saving to ${outputPath}...`);
+  const files: Record<string, Buffer> = {};
+  for (const filePath of filePaths) {
+    files[basename(filePath)] = readFileSync(filePath);
+  }
+  let manifest = createManifest(files);
+  if (signingKeyPath) {
+    manifest = signManifest(manifest, readFileSync(signingKeyPath, 'utf-8'));
+  }
+  writeFileSync(outputPath, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+  console.log(`✅ Saved ${manifest.signature ? 'signed ' : ''}manifest of ${filePaths.length} files to ${outputPath}\n`);
+}
+
+/**
+ * Get the manifest signing key path from the --signing-key=<path> argument
+ */
+function parseSigningKeyArg(args: string[]): string | undefined {
+  const arg = args.find((candidate) => candidate.startsWith('--signing-key='));
+  return arg ? arg.slice('--signing-key='.length) : undefined;
+}
+
 /**
  * Generate statistics
  */
@@ -253,12 +262,61 @@ function generateStats(domains: string[]): void {
   console.log('');
 }
 
+/**
+ * Print how many domains each source quorum level keeps
+ */
+function generateQuorumReport(sources: SourceIndex): void {
+  console.log('🗳️  Source quorum:');
+  sources.getQuorumReport().forEach(({ minSources, domains }) => {
+    console.log(`   Listed by ${minSources}+ sources: ${domains.toLocaleString()} domains`);
+  });
+  console.log('');
+}
+
+/**
+ * Parse quorum options from command line arguments
+ * --min-sources=2 --min-score=1.5 --weights=detector:0.5,sajjadh47:0.5
+ */
+function parseQuorumArgs(args: string[]): QuorumOptions {
+  const options: QuorumOptions = {};
+
+  for (const arg of args) {
+    const [name, value] = arg.split('=');
+    if (name === '--min-sources') {
+      options.minSources = Number(value);
+    } else if (name === '--min-score') {
+      options.minScore = Number(value);
+    } else if (name === '--weights') {
+      const weights: Record<string, number> = {};
+      for (const pair of (value || '').split(',')) {
+        const [key, weight] = pair.split(':');
+        if (key && weight !== undefined) {
+          weights[key] = Number(weight);
+        }
+      }
+      options.sourceWeights = weights;
+    }
+  }
+
+  return options;
+}
+
 /**
  * Main function
  */
 async function main() {
   try {
-    const domains = await aggregateAllDomains();
+    const aggregated = await aggregateAllDomains();
+    const { sources } = aggregated;
+    let { domains } = aggregated;
+
+    // Report quorum levels, then apply the requested quorum (if any)
+    generateQuorumReport(sources);
+    const quorum = parseQuorumArgs(process.argv.slice(2));
+    if (hasQuorum(quorum)) {
+      domains = applyQuorum(domains, sources, quorum);
+      console.log(`🗳️  Quorum kept ${domains.length.toLocaleString()} of ${aggregated.domains.length.toLocaleString()} domains\n`);
+    }
     
     if (domains.length === 0) {
       console.error('❌ No domains found!');
@@ -272,14 +330,23 @@ async function main() {
     const dataDir = join(__dirname, '../data');
     const jsonPath = join(dataDir, 'all-domains.json');
     const txtPath = join(dataDir, 'all-domains.txt');
+    const snapshotPath = join(dataDir, SNAPSHOT_FILE);
+    const sourcesPath = join(dataDir, 'domain-sources.json');
+    const manifestPath = join(dataDir, 'manifest.json');
 
     saveDomainsToFile(domains, jsonPath);
     saveDomainsToTextFile(domains, txtPath);
+    saveSnapshotToFile(domains, sources, snapshotPath, process.argv.includes('--gzip'));
+    saveSourceIndexToFile(domains, sources, sourcesPath);
+    saveManifestToFile([jsonPath, txtPath, snapshotPath, sourcesPath], manifestPath, parseSigningKeyArg(process.argv.slice(2)));
 
     console.log('✅ Domain aggregation completed successfully!');
     console.log(`📦 Generated files:`);
     console.log(`   - ${jsonPath}`);
     console.log(`   - ${txtPath}`);
+    console.log(`   - ${snapshotPath}`);
+    console.log(`   - ${sourcesPath}`);
+    console.log(`   - ${manifestPath}`);
   } catch (error) {
     console.error('❌ Error during aggregation:', error);
     process.exit(1);
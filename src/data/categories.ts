@@ -0,0 +1,135 @@
+/**
+ * Domain categories
+ * Bundled datasets next to data/all-domains.json tag free webmail providers and
+ * privacy relays, so policies can treat them differently from disposable and
+ * corporate domains:
+ * - data/webmail-domains.json - free mailbox providers (gmail.com, outlook.com, ...)
+ * - data/relay-domains.json - forwarding/privacy relays (Apple Hide My Email, Firefox Relay, ...)
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { toAsciiDomain } from '../utils/idn';
+
+/**
+ * Category of a domain
+ * - disposable: temporary email service (blocked)
+ * - webmail: free mailbox provider (fine for consumers, not for B2B)
+ * - relay: privacy/forwarding relay (allowed, but the real mailbox is hidden)
+ * - corporate: anything else
+ */
+export type DomainCategory = 'disposable' | 'webmail' | 'relay' | 'corporate';
+
+/**
+ * Categories backed by a bundled dataset
+ */
+export type ProviderCategory = 'webmail' | 'relay';
+
+/**
+ * Domain lists per dataset category (replaces the bundled dataset)
+ */
+export type CategoryDomains = Partial<Record<ProviderCategory, readonly string[]>>;
+
+export const CATEGORY_DATA_FILES: Readonly<Record<ProviderCategory, string>> = {
+  webmail: 'webmail-domains.json',
+  relay: 'relay-domains.json',
+};
+
+/**
+ * Bundled datasets, read once per process
+ */
+const bundledDomains = new Map<ProviderCategory, readonly string[]>();
+
+/**
+ * Read a bundled category dataset
+ * Returns an empty list if the file can't be found (e.g. in browsers)
+ * @param category - Dataset to read
+ */
+export function loadCategoryDomains(category: ProviderCategory): readonly string[] {
+  const cached = bundledDomains.get(category);
+  if (cached) {
+    return cached;
+  }
+
+  let domains: readonly string[] = [];
+  const fileName = CATEGORY_DATA_FILES[category];
+  const possiblePaths = [
+    join(process.cwd(), 'data', fileName),
+    join(__dirname, '../../data', fileName),
+    join(__dirname, '../data', fileName),
+  ];
+
+  for (const filePath of possiblePaths) {
+    try {
+      if (existsSync(filePath)) {
+        const data = JSON.parse(readFileSync(filePath, 'utf-8'));
+        if (Array.isArray(data)) {
+          domains = data;
+          break;
+        }
+      }
+    } catch (error) {
+      // Try next path
+      continue;
+    }
+  }
+
+  bundledDomains.set(category, domains);
+  return domains;
+}
+
+/**
+ * Lookup for the dataset categories
+ * Entries match the domain and its subdomains, but only as a suffix:
+ * "gmail.com.example.tk" is not webmail (the list takes precedence over
+ * these datasets, so a looser match would let such domains through)
+ */
+export class CategoryIndex {
+  private readonly categories = new Map<string, ProviderCategory>();
+
+  /**
+   * @param domains - Lists replacing the bundled datasets
+   */
+  constructor(domains: CategoryDomains = {}) {
+    // Relays are added last so they win over webmail
+    this.addDomains(domains.webmail || loadCategoryDomains('webmail'), 'webmail');
+    this.addDomains(domains.relay || loadCategoryDomains('relay'), 'relay');
+  }
+
+  /**
+   * Find the dataset category of a normalized domain or its parent domains
+   * @returns The category, or null if no dataset lists the domain
+   */
+  match(domain: string): ProviderCategory | null {
+    if (this.categories.size === 0) {
+      return null;
+    }
+    let suffix = domain;
+    while (suffix) {
+      const category = this.categories.get(suffix);
+      if (category) {
+        return category;
+      }
+      const dotIndex = suffix.indexOf('.');
+      suffix = dotIndex === -1 ? '' : suffix.slice(dotIndex + 1);
+    }
+    return null;
+  }
+
+  /**
+   * Find the dataset category of exactly this normalized domain (no parent domains)
+   * @returns The category, or null if no dataset lists the domain itself
+   */
+  get(domain: string): ProviderCategory | null {
+    return this.categories.get(domain) || null;
+  }
+
+  private addDomains(domains: readonly string[], category: ProviderCategory): void {
+    for (const domain of domains) {
+      const normalized = toAsciiDomain(domain.trim());
+      if (normalized) {
+        this.categories.set(normalized, category);
+      }
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * On-disk cache for fetched source lists
+ * Each source body is stored with its ETag and Last-Modified headers, so a
+ * restart can revalidate it with a conditional request (a 304 reuses the stored
+ * body) or fall back to it when the network is down
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+export interface DiskCacheOptions {
+  /** Directory to store fetched source lists in (default: none, disk caching disabled) */
+  cacheDir?: string;
+  /**
+   * Age in ms up to which a stored list is used without a request (default: 24 hours)
+   * Older lists are revalidated, and only used as stale data if the source fails
+   */
+  cacheMaxAge?: number;
+}
+
+export const DEFAULT_CACHE_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * A stored source list
+ */
+export interface CachedSource {
+  url: string;
+  etag: string | null;
+  lastModified: string | null;
+  /** Time of the last 200 or 304 response in ms since the epoch */
+  fetchedAt: number;
+  body: string;
+}
+
+/**
+ * How a source list was served from the disk cache
+ * - hit: stored list was fresh, no request made
+ * - revalidated: source answered 304 Not Modified
+ * - stale: source failed, stored list used instead
+ */
+export type SourceCacheStatus = 'hit' | 'revalidated' | 'stale';
+
+/**
+ * Source lists stored as one JSON file per source key
+ */
+export class SourceCache {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir, `${key.replace(/[^a-z0-9_-]/gi, '_')}.json`);
+  }
+
+  /**
+   * Read the stored list of a source
+   * Returns null if there is none, it is unreadable, or it was fetched from another URL
+   */
+  async read(key: string, url: string): Promise<CachedSource | null> {
+    try {
+      const entry: CachedSource = JSON.parse(await fs.readFile(this.pathFor(key), 'utf-8'));
+      if (entry.url !== url || typeof entry.body !== 'string' || typeof entry.fetchedAt !== 'number') {
+        return null;
+      }
+      return entry;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Store the list of a source
+   * Written to a temporary file first, so a crash never leaves a half-written entry
+   */
+  async write(key: string, entry: CachedSource): Promise<void> {
+    const path = this.pathFor(key);
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(entry), 'utf-8');
+    await fs.rename(tmpPath, path);
+  }
+}
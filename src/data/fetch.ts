@@ -0,0 +1,161 @@
+/**
+ * HTTP fetching for the loader
+ * Every request has a timeout, and network errors, timeouts, 429 and 5xx
+ * responses are retried with exponential backoff and jitter
+ */
+
+export interface FetchOptions {
+  /** Timeout per request attempt in ms, including reading the body (default: 10000) */
+  fetchTimeout?: number;
+  /** Retries per source after a network error, timeout, 429 or 5xx response (default: 2) */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled for every further retry, with jitter (default: 500) */
+  retryDelay?: number;
+  /** Deadline for a whole load in ms, 0 for none (default: 60000) */
+  loadTimeout?: number;
+}
+
+export const DEFAULT_FETCH_OPTIONS: Readonly<Required<FetchOptions>> = {
+  fetchTimeout: 10000,
+  retries: 2,
+  retryDelay: 500,
+  loadTimeout: 60000,
+};
+
+/**
+ * Fill in the defaults for unset fetch options
+ */
+export function resolveFetchOptions(options: FetchOptions): Required<FetchOptions> {
+  return {
+    fetchTimeout: options.fetchTimeout ?? DEFAULT_FETCH_OPTIONS.fetchTimeout,
+    retries: options.retries ?? DEFAULT_FETCH_OPTIONS.retries,
+    retryDelay: options.retryDelay ?? DEFAULT_FETCH_OPTIONS.retryDelay,
+    loadTimeout: options.loadTimeout ?? DEFAULT_FETCH_OPTIONS.loadTimeout,
+  };
+}
+
+/**
+ * A fetched response with its body read
+ */
+export interface FetchedText {
+  status: number;
+  statusText: string;
+  ok: boolean;
+  headers: Headers;
+  body: string;
+}
+
+/**
+ * Whether a response status is worth retrying (rate limits and server errors)
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Delay before a retry: retryDelay * 2^attempt, randomly reduced by up to half
+ * so clients that failed together don't retry together
+ */
+function backoffDelay(attempt: number, retryDelay: number): number {
+  return retryDelay * 2 ** attempt * (0.5 + Math.random() / 2);
+}
+
+/**
+ * Wait, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Reject with the signal's reason when it aborts, even if the promise never settles
+ * Used by callers waiting on a load they didn't start
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Per-request settings for fetchText
+ */
+export interface FetchRequest {
+  /** Aborts the request and any pending retry (e.g. the load deadline) */
+  signal?: AbortSignal;
+  /** Extra request headers (e.g. conditional request headers) */
+  headers?: Record<string, string>;
+  /** Called before each retry with the retry number (1-based) and the reason */
+  onRetry?: (retry: number, reason: string) => void;
+}
+
+/**
+ * Fetch a URL and read its body as text, retrying transient failures
+ * Error responses that aren't retried (or ran out of retries) are returned, not thrown
+ * @param url - URL to fetch
+ * @param options - Timeout and retry settings
+ * @param request - Abort signal, headers and retry callback
+ * @throws The last network or timeout error, or the signal's reason when aborted
+ */
+export async function fetchText(
+  url: string,
+  options: Required<FetchOptions>,
+  request: FetchRequest = {}
+): Promise<FetchedText> {
+  const { signal, headers, onRetry } = request;
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    const timeout = AbortSignal.timeout(options.fetchTimeout);
+    const requestSignal = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+    let reason: string;
+    try {
+      const response = await fetch(url, { signal: requestSignal, headers });
+      const body = await response.text();
+      if (!isRetryableStatus(response.status) || attempt >= options.retries) {
+        return {
+          status: response.status,
+          statusText: response.statusText,
+          ok: response.ok,
+          headers: response.headers,
+          body,
+        };
+      }
+      reason = `HTTP ${response.status}`;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      const failure = timeout.aborted ? new Error(`Timed out after ${options.fetchTimeout} ms`) : error;
+      if (attempt >= options.retries) {
+        throw failure;
+      }
+      reason = failure instanceof Error ? failure.message : String(failure);
+    }
+
+    onRetry?.(attempt + 1, reason);
+    await sleep(backoffDelay(attempt, options.retryDelay), signal);
+  }
+}
@@ -3,4 +3,7 @@
  */
 
 export * from './loader';
-
+export * from './provenance';
+export * from './quorum';
+export * from './sources';
+export * from './categories';
@@ -0,0 +1,230 @@
+/**
+ * Integrity checks for the domain list
+ * - data/manifest.json records the SHA-256 digest of every generated data file,
+ *   optionally signed with an Ed25519 key, so a tampered bundled list is rejected
+ * - remote sources can be pinned to a SHA-256 digest
+ * - entries that would block a major mail provider are rejected, whatever list they come from
+ */
+
+import { KeyObject, createHash, sign, verify } from 'crypto';
+
+/**
+ * Manifest written by the aggregation script next to all-domains.json
+ */
+export const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Current manifest format version
+ */
+export const MANIFEST_VERSION = 1;
+
+export interface ManifestEntry {
+  sha256: string;
+  /** Size in bytes */
+  size: number;
+}
+
+export interface DataManifest {
+  version: number;
+  /** Data file name to digest */
+  files: Record<string, ManifestEntry>;
+  /** Base64 Ed25519 signature over the version and files, if signed */
+  signature?: string;
+}
+
+export interface IntegrityOptions {
+  /**
+   * Check the local domain file against data/manifest.json (default: true)
+   * A file that doesn't match is skipped in favor of the remote sources
+   */
+  verifyIntegrity?: boolean;
+  /**
+   * Ed25519 public key (PEM) the manifest must be signed with
+   * When set, a local file without a validly signed manifest is skipped
+   */
+  manifestPublicKey?: string | KeyObject;
+  /**
+   * Expected SHA-256 digest (hex) of the raw body of remote sources, by source key
+   * A source whose body doesn't match fails
+   */
+  sourceDigests?: Readonly<Record<string, string>>;
+  /**
+   * Domains that may never be blocked, on top of the built-in major providers
+   * List entries equal to (or a parent domain of) one of them are rejected
+   */
+  neverBlock?: readonly string[];
+}
+
+/**
+ * A list entry dropped because it would block a protected domain
+ */
+export interface RejectedDomain {
+  domain: string;
+  /** The protected domain it would block */
+  protectedDomain: string;
+  /** Sources that listed it (empty if the list has no provenance) */
+  sources: string[];
+}
+
+/**
+ * Major mail providers no loaded list can block
+ */
+export const BUILTIN_NEVER_BLOCK: readonly string[] = [
+  '126.com',
+  '163.com',
+  'aol.com',
+  'fastmail.com',
+  'gmail.com',
+  'gmx.com',
+  'gmx.de',
+  'gmx.net',
+  'googlemail.com',
+  'hotmail.co.uk',
+  'hotmail.com',
+  'icloud.com',
+  'live.com',
+  'mac.com',
+  'mail.com',
+  'mail.ru',
+  'me.com',
+  'msn.com',
+  'naver.com',
+  'outlook.com',
+  'proton.me',
+  'protonmail.com',
+  'qq.com',
+  'web.de',
+  'yahoo.co.jp',
+  'yahoo.co.uk',
+  'yahoo.com',
+  'yandex.com',
+  'yandex.ru',
+  'ymail.com',
+  'zoho.com',
+];
+
+/**
+ * Hex SHA-256 digest of a string (as UTF-8) or bytes
+ */
+export function sha256(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Bytes covered by the manifest signature: the version and files, with sorted file names
+ */
+function signedPayload(manifest: DataManifest): Buffer {
+  const files: Record<string, ManifestEntry> = {};
+  for (const name of Object.keys(manifest.files).sort()) {
+    files[name] = { sha256: manifest.files[name].sha256, size: manifest.files[name].size };
+  }
+  return Buffer.from(JSON.stringify({ version: manifest.version, files }), 'utf-8');
+}
+
+/**
+ * Create a manifest for a set of data files
+ * @param files - File name to contents
+ */
+export function createManifest(files: Record<string, string | Uint8Array>): DataManifest {
+  const entries: Record<string, ManifestEntry> = {};
+  for (const name of Object.keys(files).sort()) {
+    const content = files[name];
+    entries[name] = {
+      sha256: sha256(content),
+      size: typeof content === 'string' ? Buffer.byteLength(content, 'utf-8') : content.byteLength,
+    };
+  }
+  return { version: MANIFEST_VERSION, files: entries };
+}
+
+/**
+ * Sign a manifest
+ * @param privateKey - Ed25519 private key (PEM)
+ */
+export function signManifest(manifest: DataManifest, privateKey: string | KeyObject): DataManifest {
+  const signature = sign(null, signedPayload(manifest), privateKey).toString('base64');
+  return { ...manifest, signature };
+}
+
+/**
+ * Check a manifest's signature
+ * @param publicKey - Ed25519 public key (PEM)
+ */
+export function verifyManifestSignature(manifest: DataManifest, publicKey: string | KeyObject): boolean {
+  if (!manifest.signature) {
+    return false;
+  }
+  try {
+    return verify(null, signedPayload(manifest), publicKey, Buffer.from(manifest.signature, 'base64'));
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Check a data file against a manifest
+ * @param manifest - Parsed manifest, null if there is none
+ * @param name - File name in the manifest
+ * @param content - File contents
+ * @returns Why the file can't be trusted, null if it can
+ */
+export function checkDataFile(
+  manifest: DataManifest | null,
+  name: string,
+  content: string | Uint8Array,
+  options: IntegrityOptions
+): string | null {
+  if (options.verifyIntegrity === false) {
+    return null;
+  }
+  if (!manifest) {
+    return options.manifestPublicKey ? `No ${MANIFEST_FILE} to verify ${name} against` : null;
+  }
+  if (manifest.version !== MANIFEST_VERSION || !manifest.files || typeof manifest.files !== 'object') {
+    return `Unsupported ${MANIFEST_FILE} format`;
+  }
+  if (options.manifestPublicKey && !verifyManifestSignature(manifest, options.manifestPublicKey)) {
+    return `${MANIFEST_FILE} signature is missing or invalid`;
+  }
+
+  const entry = manifest.files[name];
+  if (!entry) {
+    return `${name} is not listed in ${MANIFEST_FILE}`;
+  }
+  const digest = sha256(content);
+  if (digest !== entry.sha256) {
+    return `SHA-256 mismatch for ${name} (expected ${entry.sha256}, got ${digest})`;
+  }
+  return null;
+}
+
+/**
+ * Protected domains and all of their parent domains
+ * A list entry in this set would block a protected domain
+ */
+export class NeverBlockList {
+  /** Suffix to the protected domain it was derived from */
+  private readonly suffixes = new Map<string, string>();
+
+  /**
+   * @param extra - Domains to protect on top of BUILTIN_NEVER_BLOCK
+   */
+  constructor(extra: readonly string[] = []) {
+    for (const domain of [...BUILTIN_NEVER_BLOCK, ...extra]) {
+      const labels = domain.toLowerCase().trim().split('.');
+      for (let i = 0; i < labels.length; i++) {
+        const suffix = labels.slice(i).join('.');
+        if (suffix && !this.suffixes.has(suffix)) {
+          this.suffixes.set(suffix, labels.join('.'));
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the protected domain an entry would block, null if it is safe to block
+   */
+  getProtected(entry: string): string | null {
+    return this.suffixes.get(entry) ?? null;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Load reports
+ * Describe how the last domain list load went, source by source, so partial
+ * failures are visible instead of silently shrinking the list
+ */
+
+import type { SourceCacheStatus } from './disk-cache';
+import type { RejectedDomain } from './integrity';
+
+/**
+ * Where a loaded list came from
+ * - file: a local data file (the bundled one or dataFile)
+ * - remote: the sources (DOMAIN_SOURCES or the configured ones)
+ * - provider: the custom provider function
+ */
+export type LoadOrigin = 'file' | 'remote' | 'provider';
+
+/**
+ * Outcome of fetching one source
+ */
+export interface SourceLoadReport {
+  /** Source key (e.g. "primary") */
+  key: string;
+  url: string;
+  ok: boolean;
+  /** HTTP status, null if no response was received (or the source is a local file) */
+  status: number | null;
+  /** Number of requests made, including retries */
+  attempts: number;
+  /** Number of domains the source returned */
+  domains: number;
+  durationMs: number;
+  /** Why the source failed, null if it succeeded */
+  error: string | null;
+  /** How the disk cache was used, null if the body came straight from the source */
+  cache: SourceCacheStatus | null;
+  /** SHA-256 digest (hex) of the source body, null if none was received */
+  sha256: string | null;
+}
+
+/**
+ * Outcome of the last load or reload
+ */
+export interface LoadReport {
+  success: boolean;
+  /** Where the list came from, null if the load failed */
+  origin: LoadOrigin | null;
+  /** Path of the local file the list was read from */
+  file: string | null;
+  /** Why a local file was rejected (e.g. an integrity check failed), null if none was */
+  fileError: string | null;
+  /** Number of domains in use after quorum filtering (0 if the load failed) */
+  domains: number;
+  /** Per-source results (empty when the list came from a file) */
+  sources: SourceLoadReport[];
+  /** List entries dropped because they would block a never-block domain */
+  rejected: RejectedDomain[];
+  /** Load start time in ms since the epoch */
+  startedAt: number;
+  durationMs: number;
+  /** Why the load failed, null if it succeeded */
+  error: string | null;
+}
+
+/**
+ * Minimum coverage a load must reach, otherwise it fails with a DomainLoadError
+ */
+export interface CoverageOptions {
+  /** Min number of remote sources that must load successfully (default: 1) */
+  minSourcesRequired?: number;
+  /**
+   * Min number of domains before quorum filtering (default: 1)
+   * A local file with fewer domains is skipped in favor of the remote sources
+   */
+  minDomainCount?: number;
+}
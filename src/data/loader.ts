@@ -10,92 +10,203 @@
  * Both sources are fetched in parallel and merged/deduplicated for maximum coverage
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
+import { SourceIndex, SourceIndexData } from './provenance';
+import {
+  DOMAIN_SOURCES,
+  DomainProvider,
+  DomainSource,
+  SourceFormat,
+  SourceOptions,
+  detectSourceFormat,
+  isRemoteSource,
+  resolveSources,
+} from './sources';
+import { QuorumOptions, applyQuorum, hasQuorum } from './quorum';
+import { toAsciiDomain } from '../utils/idn';
+import { GuardEvents, toError } from '../events';
+import { Logger, LoggerOptions, resolveLogger } from '../logger';
+import { DomainLoadError } from '../errors';
+import type { CoverageOptions, LoadOrigin, LoadReport, SourceLoadReport } from './load-report';
+import { FetchOptions, abortable, fetchText, resolveFetchOptions } from './fetch';
+import { CachedSource, DEFAULT_CACHE_MAX_AGE, DiskCacheOptions, SourceCache } from './disk-cache';
+import {
+  DataManifest,
+  IntegrityOptions,
+  MANIFEST_FILE,
+  NeverBlockList,
+  RejectedDomain,
+  checkDataFile,
+  sha256,
+} from './integrity';
+import { SNAPSHOT_FILE, decodeSnapshot, isSnapshotFile } from './snapshot';
+import { FrozenDomainTrie } from '../utils/frozen-trie';
+
 /**
- * Multiple domain sources for maximum coverage
- * Aggregates from all major public datasets
+ * Settings shared by all source fetches of one load
  */
+interface FetchContext {
+  events: GuardEvents;
+  logger: Logger;
+  options: Required<FetchOptions>;
+  /** Aborted by the caller's signal or the load deadline */
+  signal: AbortSignal;
+  /** Sources to fetch, in provenance bit order */
+  sources: readonly DomainSource[];
+  /** Disk cache for source lists, null if disabled */
+  cache: SourceCache | null;
+  cacheMaxAge: number;
+  sourceDigests: Readonly<Record<string, string>>;
+}
+
 /**
- * All domain sources for maximum coverage
- * Aggregates from 9 major public datasets
+ * Body of a source, with the disk cache entry to store once it parsed
  */
-const DOMAINS_URLS = {
-  // Primary: disposable-email-domains (most used, community maintained)
-  primary: 'https://raw.githubusercontent.com/disposable-email-domains/disposable-email-domains/main/disposable_email_blocklist.conf',
-  // IntegerAlex disposable-email-detector (JSON format, large dataset ~185k)
-  detector: 'https://raw.githubusercontent.com/IntegerAlex/disposable-email-detector/refs/heads/main/index.json',
-  // ivolo disposable-email-domains (additional coverage)
-  ivolo: 'https://raw.githubusercontent.com/ivolo/disposable-email-domains/master/index.json',
-  // martenson disposable-email-domains (legacy providers)
-  martenson: 'https://raw.githubusercontent.com/martenson/disposable-email-domains/master/disposable_email_blocklist.conf',
-  // Mailchecker list
-  mailchecker: 'https://raw.githubusercontent.com/FGRibreau/mailchecker/master/list.txt',
-  // sajjadh47 - Over 100k domains
-  sajjadh47: 'https://raw.githubusercontent.com/sajjadh47/disposable-email-domains-list/master/domains.json',
-  // WebSnifferHQ disposable-email-domains
-  websniffer: 'https://raw.githubusercontent.com/WebSnifferHQ/disposable-email-domains/main/disposable-email-domains.txt',
-  // groundcat disposable-email-domain-list (MX validated)
-  groundcat: 'https://raw.githubusercontent.com/groundcat/disposable-email-domain-list/master/domains.json',
-  // disposable/disposable (updated every 24h)
-  disposableMain: 'https://raw.githubusercontent.com/disposable/disposable-email-domains/master/domains.txt',
-};
-
-let cachedDomains: readonly string[] | null = null;
-let loadPromise: Promise<readonly string[]> | null = null;
+interface SourceBody {
+  body: string;
+  entry: CachedSource | null;
+}
 
 /**
- * Fetch domains from JSON source
+ * Fetch the body of a source with timeout and retries, recording the HTTP status,
+ * attempts and cache use in the source report
+ * A fresh cached body is used without a request, an older one is revalidated
+ * and used as stale data if the source fails
+ * Local file sources are read directly, without caching
+ * Throws on network errors, timeouts and error responses when nothing is cached
  */
-async function fetchDomainsFromJson(url: string): Promise<string[]> {
+async function fetchSourceBody(source: DomainSource, report: SourceLoadReport, context: FetchContext): Promise<SourceBody> {
+  if (!isRemoteSource(source.url)) {
+    const body = await fs.promises.readFile(source.url.replace(/^file:\/\//i, ''), { encoding: 'utf-8', signal: context.signal });
+    return { body, entry: null };
+  }
+
+  const { cache, logger } = context;
+  const cached = cache ? await cache.read(source.key, source.url) : null;
+  if (cached && Date.now() - cached.fetchedAt < context.cacheMaxAge) {
+    report.attempts = 0;
+    report.cache = 'hit';
+    return { body: cached.body, entry: null };
+  }
+
+  const headers: Record<string, string> = {};
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified;
+  }
+
+  let failure: Error;
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      return [];
-    }
-    const data: any = await response.json();
-    if (Array.isArray(data)) {
-      return data.map((d: string) => d.toLowerCase().trim()).filter(Boolean);
+    const response = await fetchText(source.url, context.options, {
+      signal: context.signal,
+      headers,
+      onRetry: (retry, reason) => {
+        report.attempts = retry + 1;
+        logger.debug(`🔁 Retrying source "${report.key}" (${reason}), retry ${retry} of ${context.options.retries}`);
+      },
+    });
+    report.status = response.status;
+    if (response.status === 304 && cached) {
+      report.cache = 'revalidated';
+      return { body: cached.body, entry: { ...cached, fetchedAt: Date.now() } };
     }
-    if (data && typeof data === 'object' && 'domains' in data && Array.isArray(data.domains)) {
-      return data.domains.map((d: string) => d.toLowerCase().trim()).filter(Boolean);
+    if (response.ok) {
+      return {
+        body: response.body,
+        entry: {
+          url: source.url,
+          etag: response.headers.get('etag'),
+          lastModified: response.headers.get('last-modified'),
+          fetchedAt: Date.now(),
+          body: response.body,
+        },
+      };
     }
-    return [];
+    failure = new Error(`HTTP ${response.status} ${response.statusText}`.trim());
   } catch (error) {
-    return [];
+    failure = toError(error);
+  }
+
+  // Aborted loads fail as a whole, stale data only stands in for a failing source
+  if (!cached || context.signal.aborted) {
+    throw failure;
   }
+  report.cache = 'stale';
+  const age = Math.round((Date.now() - cached.fetchedAt) / 60000);
+  logger.warn(`⚠️  Source "${source.key}" failed (${failure.message}) - using cached list from ${age} min ago`);
+  return { body: cached.body, entry: null };
 }
 
 /**
- * Fetch domains from plain text source
+ * Parse domains from a JSON source body
+ * Throws on unexpected formats
  */
-async function fetchDomainsFromText(url: string): Promise<string[]> {
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      return [];
-    }
-    const text = await response.text();
-    // Parse plain text - one domain per line
-    return text
+function parseJsonDomains(body: string): string[] {
+  const data: any = JSON.parse(body);
+  if (Array.isArray(data)) {
+    return data.map((d: string) => d.toLowerCase().trim()).filter(Boolean);
+  }
+  if (data && typeof data === 'object' && 'domains' in data && Array.isArray(data.domains)) {
+    return data.domains.map((d: string) => d.toLowerCase().trim()).filter(Boolean);
+  }
+  throw new Error('Unexpected JSON format');
+}
+
+/**
+ * Parse domains from a plain text source body
+ */
+function parseTextDomains(text: string): string[] {
+  // Parse plain text - one domain per line
+  return text
+    .split('\n')
+    .map((line) => line.trim().toLowerCase())
+    .filter((line) => line && !line.startsWith('#') && !line.startsWith('//') && line.includes('.') && line.length > 3);
+}
+
+/**
+ * Parse domains from the first column of a CSV body
+ * Rows without a dot in the first column (such as a header row) are skipped
+ */
+function parseCsvDomains(text: string): string[] {
+  return parseTextDomains(
+    text
       .split('\n')
-      .map((line) => line.trim().toLowerCase())
-      .filter((line) => line && !line.startsWith('#') && !line.startsWith('//') && line.includes('.') && line.length > 3);
-  } catch (error) {
-    return [];
+      .map((row) => row.split(',')[0].trim().replace(/^"(.*)"$/, '$1'))
+      .join('\n')
+  );
+}
+
+/**
+ * Parse domains from a list body in any supported format
+ */
+function parseDomains(body: string, format: SourceFormat): string[] {
+  switch (format) {
+    case 'json':
+      return parseJsonDomains(body);
+    case 'csv':
+      return parseCsvDomains(body);
+    default:
+      return parseTextDomains(body);
   }
 }
 
+const FORMAT_LABELS: Readonly<Record<SourceFormat, string>> = { json: 'JSON', text: 'text', csv: 'CSV' };
+
 /**
- * Normalize domain
+ * Normalize domain (Unicode domains are converted to punycode)
  */
 function normalizeDomain(domain: string): string {
-  return domain
+  return toAsciiDomain(domain
     .toLowerCase()
     .trim()
     .replace(/^https?:\/\//, '')
     .replace(/^www\./, '')
     .split('/')[0]
     .split('?')[0]
-    .split('#')[0];
+    .split('#')[0]);
 }
 
 /**
@@ -106,104 +217,240 @@ function isValidDomain(domain: string): boolean {
   if (!domain.includes('.')) return false;
   if (domain.startsWith('.') || domain.endsWith('.')) return false;
   if (domain.includes(' ')) return false;
-  const domainRegex = /^[a-z0-9]([a-z0-9\-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9\-]{0,61}[a-z0-9])?)*\.[a-z]{2,}$/i;
+  const domainRegex = /^[a-z0-9]([a-z0-9\-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9\-]{0,61}[a-z0-9])?)*\.([a-z]{2,}|xn--[a-z0-9\-]+)$/i;
   return domainRegex.test(domain);
 }
 
+/**
+ * Domains merged from all sources, with the sources that listed each one
+ */
+interface LoadedDomains {
+  domains: readonly string[];
+  sources: SourceIndex | null;
+  origin: LoadOrigin;
+  /** Path of the local file the list was read from */
+  file: string | null;
+  /** Keys of the sources that failed */
+  failedSources: string[];
+  /** Lookup trie for exactly these domains, built while reading a binary snapshot */
+  trie?: FrozenDomainTrie | null;
+}
+
+/**
+ * Fetch domains from a single source using the parser for its format
+ * The body is checked against the source's pinned digest (if any) before it is parsed or cached
+ */
+async function fetchDomainsFromSource(
+  source: DomainSource,
+  report: SourceLoadReport,
+  context: FetchContext
+): Promise<string[]> {
+  const { body, entry } = await fetchSourceBody(source, report, context);
+  report.sha256 = sha256(body);
+  const pinned = context.sourceDigests[source.key];
+  if (pinned && pinned.toLowerCase() !== report.sha256) {
+    throw new Error(`SHA-256 mismatch (expected ${pinned}, got ${report.sha256})`);
+  }
+
+  const domains = parseDomains(body, source.type);
+
+  if (entry && context.cache) {
+    try {
+      await context.cache.write(source.key, entry);
+    } catch (error) {
+      context.logger.warn(`⚠️  Failed to cache source "${source.key}": ${toError(error).message}`);
+    }
+  }
+  return source.transform ? source.transform(domains) : domains;
+}
+
 /**
  * Fetch and merge domains from ALL sources for maximum coverage
+ * A failing source is logged, reported as a load:source-failed event and skipped
+ * @param reports - Receives one report per source, in source order
  */
-async function fetchDomains(): Promise<readonly string[]> {
-  // Fetch from all 9 sources in parallel for maximum speed and coverage
-  const [
-    primaryDomains,
-    detectorDomains,
-    ivoloDomains,
-    martensonDomains,
-    mailcheckerDomains,
-    sajjadh47Domains,
-    websnifferDomains,
-    groundcatDomains,
-    disposableMainDomains,
-  ] = await Promise.all([
-    fetchDomainsFromText(DOMAINS_URLS.primary),
-    fetchDomainsFromJson(DOMAINS_URLS.detector),
-    fetchDomainsFromJson(DOMAINS_URLS.ivolo).catch(() => []),
-    fetchDomainsFromText(DOMAINS_URLS.martenson).catch(() => []),
-    fetchDomainsFromText(DOMAINS_URLS.mailchecker).catch(() => []),
-    fetchDomainsFromJson(DOMAINS_URLS.sajjadh47).catch(() => []),
-    fetchDomainsFromText(DOMAINS_URLS.websniffer).catch(() => []),
-    fetchDomainsFromJson(DOMAINS_URLS.groundcat).catch(() => []),
-    fetchDomainsFromText(DOMAINS_URLS.disposableMain).catch(() => []),
-  ]);
-
-  // Merge and deduplicate using Set
+async function fetchDomains(context: FetchContext, reports: SourceLoadReport[]): Promise<LoadedDomains> {
+  const { events, logger } = context;
+  const failedSources: string[] = [];
+
+  // Fetch from all sources in parallel for maximum speed and coverage
+  const results = await Promise.all(
+    context.sources.map(async (source) => {
+      const startedAt = Date.now();
+      const report: SourceLoadReport = {
+        key: source.key,
+        url: source.url,
+        ok: false,
+        status: null,
+        attempts: 1,
+        domains: 0,
+        durationMs: 0,
+        error: null,
+        cache: null,
+        sha256: null,
+      };
+      reports.push(report);
+
+      try {
+        const domains = await fetchDomainsFromSource(source, report, context);
+        report.ok = true;
+        report.domains = domains.length;
+        return domains;
+      } catch (error) {
+        report.error = toError(error).message;
+        failedSources.push(source.key);
+        logger.warn(`⚠️  Failed to fetch domains from source "${source.key}": ${report.error}`);
+        events.emit('load:source-failed', { source: source.key, url: source.url, error: toError(error) });
+        return [] as string[];
+      } finally {
+        report.durationMs = Date.now() - startedAt;
+      }
+    })
+  );
+
+  // Merge and deduplicate using Set, remembering which sources listed each domain
   const mergedSet = new Set<string>();
-  
-  // Add domains from all 9 sources with normalization and duplicate removal
-  [
-    ...primaryDomains,
-    ...detectorDomains,
-    ...ivoloDomains,
-    ...martensonDomains,
-    ...mailcheckerDomains,
-    ...sajjadh47Domains,
-    ...websnifferDomains,
-    ...groundcatDomains,
-    ...disposableMainDomains,
-  ].forEach((domain) => {
-    const normalized = normalizeDomain(domain);
-    if (isValidDomain(normalized)) {
-      mergedSet.add(normalized);
+  const sources = SourceIndex.forSources(context.sources.map((source) => source.key));
+
+  // Add domains from all sources with normalization and duplicate removal
+  results.forEach((domains, i) => {
+    for (const domain of domains) {
+      const normalized = normalizeDomain(domain);
+      if (isValidDomain(normalized)) {
+        mergedSet.add(normalized);
+        sources.add(normalized, context.sources[i].key);
+      }
     }
   });
 
   // Convert to sorted array for consistency
   const merged = Array.from(mergedSet).sort();
 
-  if (merged.length === 0) {
-    throw new Error('No domains could be loaded from any source');
+  return { domains: merged, sources, origin: 'remote', file: null, failedSources };
+}
+
+/**
+ * Provenance file written by the aggregation script next to all-domains.json
+ */
+const SOURCE_INDEX_FILE = 'domain-sources.json';
+
+/**
+ * Load the provenance index stored next to the domain list
+ * Returns null if the file is missing or doesn't match the list
+ */
+function loadSourceIndexFromFile(
+  fs: typeof import('fs'),
+  indexPath: string,
+  domains: readonly string[]
+): SourceIndex | null {
+  try {
+    if (!fs.existsSync(indexPath)) {
+      return null;
+    }
+    const data: SourceIndexData = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+    return SourceIndex.fromData(domains, data);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Read the manifest stored next to the domain list
+ * Returns null if there is none or it can't be parsed
+ */
+function loadManifestFromFile(fs: typeof import('fs'), manifestPath: string): DataManifest | null {
+  try {
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  } catch (error) {
+    return null;
   }
+}
 
-  return merged;
+/**
+ * Read a local domain file: a binary snapshot (.bin) or a JSON, text or CSV list
+ * The file is checked against the manifest next to it before it is parsed
+ * @returns The domains (and trie and provenance, for snapshots), or the reason the file was rejected
+ */
+function readDomainFile(
+  filePath: string,
+  integrity: IntegrityOptions
+): { domains: string[]; trie: FrozenDomainTrie | null; sources: SourceIndex | null; label: string } | { integrityError: string } {
+  const snapshot = isSnapshotFile(filePath);
+  const content = snapshot ? fs.readFileSync(filePath) : fs.readFileSync(filePath, 'utf-8');
+  const manifest = loadManifestFromFile(fs, path.join(path.dirname(filePath), MANIFEST_FILE));
+  const integrityError = checkDataFile(manifest, path.basename(filePath), content, integrity);
+  if (integrityError) {
+    return { integrityError };
+  }
+  if (typeof content !== 'string') {
+    return { ...decodeSnapshot(content), label: 'binary snapshot' };
+  }
+  const format = detectSourceFormat(filePath);
+  return { domains: parseDomains(content, format), trie: null, sources: null, label: `${FORMAT_LABELS[format]} file` };
 }
 
 /**
- * Try to load domains from local JSON file (faster, no network)
- * Works in Node.js environment only
- * Falls back to fetching from URLs if file doesn't exist
+ * Try to load domains from local file (faster, no network)
+ * The bundled binary snapshot is preferred over the bundled JSON list
+ * Works in Node.js environment only, synchronously so initializeSync can use it
+ * Falls back to fetching from URLs if file doesn't exist or fails its integrity check
+ * @param dataFile - File to load instead of probing for the bundled data/all-domains.bin and all-domains.json
+ * @param report - Receives why a file was rejected
  */
-async function loadDomainsFromFile(): Promise<string[] | null> {
+function loadDomainsFromFile(
+  logger: Logger,
+  integrity: IntegrityOptions,
+  report: LoadReport,
+  dataFile?: string
+): LoadedDomains | null {
   // Only works in Node.js environment
   if (typeof process === 'undefined' || !process.versions?.node) {
     return null;
   }
 
   try {
-    // Use dynamic import to avoid issues in browser environments
-    const fs = await import('fs');
-    const path = await import('path');
-    const { fileURLToPath } = await import('url');
-    
     // Try multiple possible paths
-    const possiblePaths = [
-      path.join(process.cwd(), 'data', 'all-domains.json'),
-      path.join(__dirname, '../../data/all-domains.json'),
-      path.join(__dirname, '../data/all-domains.json'),
-    ];
+    const possiblePaths = dataFile ? [path.resolve(dataFile)] : [
+      path.join(process.cwd(), 'data'),
+      path.join(__dirname, '../../data'),
+      path.join(__dirname, '../data'),
+    ].flatMap((dir) => [path.join(dir, SNAPSHOT_FILE), path.join(dir, 'all-domains.json')]);
 
-    for (const jsonPath of possiblePaths) {
+    for (const filePath of possiblePaths) {
       try {
-        if (fs.existsSync(jsonPath)) {
-          const fileContent = fs.readFileSync(jsonPath, 'utf-8');
-          const domains = JSON.parse(fileContent);
-          if (Array.isArray(domains) && domains.length > 0) {
-            console.log(`✅ Loaded ${domains.length.toLocaleString()} domains from local JSON file`);
-            return domains.map((d: string) => d.toLowerCase().trim()).filter(Boolean);
+        if (!fs.existsSync(filePath)) {
+          if (dataFile) {
+            report.fileError = `File not found: ${filePath}`;
+            logger.warn(`⚠️  Data file ${filePath} not found`);
+          }
+        } else {
+          const read = readDomainFile(filePath, integrity);
+          if ('integrityError' in read) {
+            report.fileError = read.integrityError;
+            logger.warn(`⚠️  Rejected local file ${filePath}: ${read.integrityError}`);
+            continue;
+          }
+          const { domains, trie } = read;
+          if (domains.length > 0) {
+            logger.info(`✅ Loaded ${domains.length.toLocaleString()} domains from local ${read.label}`);
+            // Provenance stored in a snapshot wins over the file next to it
+            const sources = read.sources || loadSourceIndexFromFile(
+              fs,
+              path.join(path.dirname(filePath), SOURCE_INDEX_FILE),
+              domains
+            );
+            return { domains, sources, origin: 'file', file: filePath, failedSources: [], trie };
           }
         }
       } catch (error) {
         // Try next path
+        if (dataFile) {
+          report.fileError = toError(error).message;
+          logger.warn(`⚠️  Failed to read data file ${filePath}: ${report.fileError}`);
+        }
         continue;
       }
     }
@@ -216,63 +463,529 @@ async function loadDomainsFromFile(): Promise<string[] | null> {
 }
 
 /**
- * Load domains - tries local JSON file first, then falls back to URLs
- * @returns Promise that resolves to the domains array
+ * Empty report for a load starting now
  */
-export async function loadDomains(): Promise<readonly string[]> {
-  // Return cached if available
-  if (cachedDomains) {
-    return cachedDomains;
+function createReport(startedAt: number): LoadReport {
+  return {
+    success: false,
+    origin: null,
+    file: null,
+    fileError: null,
+    domains: 0,
+    sources: [],
+    rejected: [],
+    startedAt,
+    durationMs: 0,
+    error: null,
+  };
+}
+
+/**
+ * Options for a DomainLoader
+ */
+export interface DomainLoaderOptions
+  extends SourceOptions, QuorumOptions, CoverageOptions, FetchOptions, DiskCacheOptions, IntegrityOptions, LoggerOptions {
+  /**
+   * Event emitter to report load events to (defaults to a new one, see DomainLoader.events)
+   */
+  events?: GuardEvents;
+}
+
+/**
+ * Options for a single load() call
+ */
+export interface LoadOptions {
+  /**
+   * Stops waiting for the load
+   * The load itself is shared and keeps running for other callers, bounded by loadTimeout
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Domain loader instance
+ * Owns its own cached domain list and in-flight load, so several loaders
+ * (and the guards using them) can coexist without sharing state
+ */
+export class DomainLoader {
+  /**
+   * Load events (load:start, load:source-failed, load:complete, load:failed)
+   * Guards using this loader emit their own events on the same emitter
+   */
+  readonly events: GuardEvents;
+  private readonly options: DomainLoaderOptions;
+  private logger: Logger;
+  private cachedDomains: readonly string[] | null = null;
+  private cachedSources: SourceIndex | null = null;
+  private cachedTrie: FrozenDomainTrie | null = null;
+  private lastReport: LoadReport | null = null;
+  private readonly sources: readonly DomainSource[];
+  private readonly neverBlock: NeverBlockList;
+  private readonly sourceCache: SourceCache | null;
+  private loadPromise: Promise<readonly string[]> | null = null;
+  private reloadPromise: Promise<readonly string[]> | null = null;
+  /** Bumped by clear(), so loads started before it discard their result */
+  private generation = 0;
+
+  constructor(options: DomainLoaderOptions = {}) {
+    this.options = options;
+    this.logger = resolveLogger(options);
+    this.events = options.events || new GuardEvents(this.logger);
+    this.sources = options.sources ? resolveSources(options.sources) : DOMAIN_SOURCES;
+    this.neverBlock = new NeverBlockList(options.neverBlock);
+    this.sourceCache = options.cacheDir ? new SourceCache(options.cacheDir) : null;
+  }
+
+  /**
+   * Load domains - tries local JSON file first, then falls back to URLs
+   * A failed or aborted load is retried by the next call
+   * @param options - Abort signal for this call
+   * @returns Promise that resolves to the domains array
+   */
+  async load(options: LoadOptions = {}): Promise<readonly string[]> {
+    // Return cached if available
+    if (this.cachedDomains) {
+      return this.cachedDomains;
+    }
+
+    options.signal?.throwIfAborted();
+
+    // Start loading unless already loading - try local file first, then URLs
+    // The load is shared, so only the load deadline stops it; each caller's signal only stops that caller waiting
+    if (!this.loadPromise) {
+      const loadPromise = this.loadLatest(false).catch((error) => {
+        if (this.loadPromise === loadPromise) {
+          this.loadPromise = null;
+        }
+        throw error;
+      });
+      this.loadPromise = loadPromise;
+    }
+
+    return abortable(this.loadPromise, options.signal);
+  }
+
+  /**
+   * Load a fresh copy of the domain list, ignoring the cache
+   * The bundled file is skipped in favor of the sources (a dataFile is read again)
+   * The cached list is only replaced once the new one is complete;
+   * if loading fails the promise rejects and the cached list is kept
+   * @returns Promise that resolves to the new domains array
+   */
+  async reload(): Promise<readonly string[]> {
+    // Share a reload that is already running
+    if (this.reloadPromise) {
+      return this.reloadPromise;
+    }
+
+    const reloadPromise = this.loadLatest(true)
+      .finally(() => {
+        if (this.reloadPromise === reloadPromise) {
+          this.reloadPromise = null;
+        }
+      });
+    this.reloadPromise = reloadPromise;
+
+    return reloadPromise;
+  }
+
+  /**
+   * Load the latest list, cache it and report load events
+   * The outcome is recorded as the load report, failures are thrown as DomainLoadError
+   * A load that clear() overtakes stores and reports nothing, it rejects with DomainLoadError
+   * @param refresh - Whether this replaces an already loaded list
+   */
+  private async loadLatest(refresh: boolean): Promise<readonly string[]> {
+    const generation = this.generation;
+    const startedAt = Date.now();
+    const fetchOptions = resolveFetchOptions(this.options);
+
+    // Abort all fetches once the load deadline passes
+    const deadline = new AbortController();
+    const deadlineTimer = fetchOptions.loadTimeout > 0
+      ? setTimeout(() => deadline.abort(new Error(`Load timed out after ${fetchOptions.loadTimeout} ms`)), fetchOptions.loadTimeout)
+      : null;
+    deadlineTimer?.unref?.();
+    const { signal } = deadline;
+
+    const report = createReport(startedAt);
+    this.events.emit('load:start', { refresh });
+
+    try {
+      const loaded = await this.fetchLatest(report, refresh, {
+        events: this.events,
+        logger: this.logger,
+        options: fetchOptions,
+        signal,
+        sources: this.sources,
+        cache: this.sourceCache,
+        cacheMaxAge: this.options.cacheMaxAge ?? DEFAULT_CACHE_MAX_AGE,
+        sourceDigests: this.options.sourceDigests || {},
+      });
+      if (generation === this.generation) {
+        return this.complete(loaded, report, refresh);
+      }
+    } catch (error) {
+      if (generation === this.generation) {
+        throw this.fail(error, report, refresh);
+      }
+    } finally {
+      if (deadlineTimer) {
+        clearTimeout(deadlineTimer);
+      }
+    }
+    throw new DomainLoadError('Load discarded because the loader was cleared', report);
+  }
+
+  /**
+   * Load domains synchronously from the local data file (dataFile, or the bundled
+   * data/all-domains.json), without fetching sources or calling the provider
+   * Returns the cached list if domains are already loaded
+   * @throws DomainLoadError if there is no usable file (or only sources/a provider are configured)
+   */
+  loadSync(): readonly string[] {
+    if (this.cachedDomains) {
+      return this.cachedDomains;
+    }
+
+    const report = createReport(Date.now());
+    this.events.emit('load:start', { refresh: false });
+
+    try {
+      const { dataFile, sources, provider } = this.options;
+      if (!dataFile && (sources || provider)) {
+        throw new DomainLoadError('Synchronous loading needs a local file: set dataFile', report);
+      }
+      const fromFile = loadDomainsFromFile(this.logger, this.options, report, dataFile);
+      if (!fromFile) {
+        throw new DomainLoadError(report.fileError || 'No local domain file found', report);
+      }
+      const loaded = this.rejectProtected(fromFile, report);
+      const minDomainCount = this.options.minDomainCount ?? 1;
+      if (loaded.domains.length < minDomainCount) {
+        throw new DomainLoadError(`Only ${loaded.domains.length} domains loaded (minDomainCount: ${minDomainCount})`, report);
+      }
+      return this.complete(loaded, report, false);
+    } catch (error) {
+      throw this.fail(error, report, false);
+    }
   }
 
-  // Return existing promise if already loading
-  if (loadPromise) {
-    return loadPromise;
+  /**
+   * Cache a loaded list, record the successful report and emit load:complete
+   */
+  private complete(loaded: LoadedDomains, report: LoadReport, refresh: boolean): readonly string[] {
+    const domains = this.store(loaded);
+    report.success = true;
+    report.origin = loaded.origin;
+    report.file = loaded.file;
+    report.domains = domains.length;
+    report.durationMs = Date.now() - report.startedAt;
+    this.lastReport = report;
+    this.events.emit('load:complete', {
+      refresh,
+      origin: loaded.origin,
+      domains: domains.length,
+      failedSources: loaded.failedSources,
+      durationMs: report.durationMs,
+    });
+    return domains;
   }
 
-  // Start loading - try local file first, then URLs
-  loadPromise = (async () => {
+  /**
+   * Record a failed load and emit load:failed
+   * @returns The failure as a DomainLoadError
+   */
+  private fail(error: unknown, report: LoadReport, refresh: boolean): DomainLoadError {
+    report.error = toError(error).message;
+    report.durationMs = Date.now() - report.startedAt;
+    this.lastReport = report;
+    const loadError = error instanceof DomainLoadError ? error : new DomainLoadError(report.error, report);
+    this.events.emit('load:failed', { refresh, error: loadError, durationMs: report.durationMs });
+    return loadError;
+  }
+
+  /**
+   * Get the domain list from the provider function, or read it from the local data file,
+   * or fetch it from the sources
+   * Entries that would block a protected provider are dropped either way
+   * @param report - Receives the per-source results and rejected entries
+   * @param refresh - Whether this replaces an already loaded list
+   * @param context - Fetch settings and the abort signal of this load
+   */
+  private async fetchLatest(report: LoadReport, refresh: boolean, context: FetchContext): Promise<LoadedDomains> {
+    const minDomainCount = this.options.minDomainCount ?? 1;
+
+    if (this.options.provider) {
+      const provided = this.rejectProtected(await this.loadFromProvider(this.options.provider, context.signal), report);
+      this.checkCoverage(provided, report);
+      this.logger.info(`✅ Loaded ${provided.domains.length.toLocaleString()} domains from provider`);
+      return provided;
+    }
+
     // Try to load from local JSON file first (faster, no network)
     // This works when running locally or when data/ folder is available
-    const fileDomains = await loadDomainsFromFile();
-    
-    if (fileDomains && fileDomains.length > 0) {
-      console.log(`📦 Using local JSON file (${fileDomains.length.toLocaleString()} domains)`);
-      cachedDomains = fileDomains;
-      return fileDomains;
+    // Configured sources replace the bundled file unless a dataFile is set too
+    // Refreshes skip the bundled file: it only changes when the package is updated
+    const fromFile = this.options.dataFile || (!this.options.sources && !refresh)
+      ? loadDomainsFromFile(this.logger, this.options, report, this.options.dataFile)
+      : null;
+
+    if (fromFile && fromFile.domains.length >= minDomainCount) {
+      if (fromFile.sources || !hasQuorum(this.options)) {
+        this.logger.debug(`📦 Using local file (${fromFile.domains.length.toLocaleString()} domains)`);
+        return this.rejectProtected(fromFile, report);
+      }
+      // The quorum needs to know which sources listed each domain, fetching records that
+      this.logger.info('🗳️  Local file has no provenance for the source quorum - fetching from sources');
+      try {
+        return await this.fetchFromSources(report, context);
+      } catch (error) {
+        if (context.signal.aborted) {
+          throw error;
+        }
+        report.error = null;
+        this.logger.warn(`⚠️  Fetching for the source quorum failed (${toError(error).message}) - using the local file`);
+        return this.rejectProtected(fromFile, report);
+      }
     }
-    
-    // Fallback to fetching from URLs if file doesn't exist
-    // This is the default for published npm packages
-    console.log('🌐 Fetching domains from GitHub URLs...');
-    const urlDomains = await fetchDomains();
-    console.log(`✅ Loaded ${urlDomains.length.toLocaleString()} domains from URLs`);
-    cachedDomains = urlDomains;
-    return urlDomains;
-  })();
-
-  return loadPromise;
+    if (fromFile) {
+      this.logger.warn(
+        `⚠️  Local file has only ${fromFile.domains.length.toLocaleString()} domains (minDomainCount: ${minDomainCount}) - fetching from sources`
+      );
+    }
+
+    return this.fetchFromSources(report, context);
+  }
+
+  /**
+   * Fetch the domain list from the sources, recording provenance
+   * This is the default for published npm packages without a data folder
+   * @throws DomainLoadError if too few sources or domains were loaded
+   */
+  private async fetchFromSources(report: LoadReport, context: FetchContext): Promise<LoadedDomains> {
+    this.logger.info(
+      this.options.sources
+        ? `🌐 Fetching domains from ${this.sources.length} configured sources...`
+        : '🌐 Fetching domains from GitHub URLs...'
+    );
+    const fetched = this.rejectProtected(await fetchDomains(context, report.sources), report);
+    // Aborted fetches count as failed sources, fail the whole load instead
+    context.signal.throwIfAborted();
+    this.checkCoverage(fetched, report);
+    this.logger.info(`✅ Loaded ${fetched.domains.length.toLocaleString()} domains from sources`);
+    return fetched;
+  }
+
+  /**
+   * Get the domain list from a provider function, normalized like fetched lists
+   * Invalid entries are skipped, the list has no provenance
+   */
+  private async loadFromProvider(provider: DomainProvider, signal: AbortSignal): Promise<LoadedDomains> {
+    const provided = await abortable(provider(signal), signal);
+    const domains = new Set<string>();
+    for (const domain of provided) {
+      const normalized = typeof domain === 'string' ? normalizeDomain(domain) : '';
+      if (isValidDomain(normalized)) {
+        domains.add(normalized);
+      }
+    }
+    return { domains: Array.from(domains).sort(), sources: null, origin: 'provider', file: null, failedSources: [] };
+  }
+
+  /**
+   * Drop list entries that would block a never-block domain, recording them in the report
+   */
+  private rejectProtected(loaded: LoadedDomains, report: LoadReport): LoadedDomains {
+    const rejected: RejectedDomain[] = [];
+    const domains = loaded.domains.filter((domain) => {
+      const protectedDomain = this.neverBlock.getProtected(domain);
+      if (protectedDomain === null) {
+        return true;
+      }
+      rejected.push({ domain, protectedDomain, sources: loaded.sources?.getSources(domain) || [] });
+      return false;
+    });
+
+    if (rejected.length === 0) {
+      return loaded;
+    }
+    report.rejected = rejected;
+    this.logger.warn(
+      `⚠️  Rejected ${rejected.length} list entries that would block protected domains: ${rejected.map((entry) => entry.domain).join(', ')}`
+    );
+    return { ...loaded, domains, trie: null };
+  }
+
+  /**
+   * Fail the load if too few sources or domains were loaded
+   */
+  private checkCoverage(fetched: LoadedDomains, report: LoadReport): void {
+    const minSourcesRequired = this.options.minSourcesRequired ?? 1;
+    const minDomainCount = this.options.minDomainCount ?? 1;
+    const loadedSources = report.sources.filter((source) => source.ok).length;
+
+    let message: string | null = null;
+    if (fetched.domains.length === 0) {
+      message = 'No domains could be loaded from any source';
+    } else if (fetched.origin === 'remote' && loadedSources < minSourcesRequired) {
+      message = `Only ${loadedSources} of ${report.sources.length} sources loaded (minSourcesRequired: ${minSourcesRequired})`;
+    } else if (fetched.domains.length < minDomainCount) {
+      message = `Only ${fetched.domains.length} domains loaded (minDomainCount: ${minDomainCount})`;
+    }
+
+    if (message) {
+      report.error = message;
+      throw new DomainLoadError(message, report);
+    }
+  }
+
+  /**
+   * Apply quorum rules to a loaded list and cache the result
+   * Domains and provenance are replaced together, synchronously
+   */
+  private store(loaded: LoadedDomains): readonly string[] {
+    let domains = loaded.domains;
+    let trie = loaded.trie || null;
+
+    if (hasQuorum(this.options)) {
+      if (loaded.sources) {
+        domains = applyQuorum(domains, loaded.sources, this.options);
+        trie = null;
+        this.logger.info(`🗳️  Source quorum kept ${domains.length.toLocaleString()} of ${loaded.domains.length.toLocaleString()} domains`);
+      } else {
+        this.logger.warn('⚠️  Source quorum requested but the domain list has no provenance - using all domains');
+      }
+    }
+
+    this.cachedDomains = domains;
+    this.cachedSources = loaded.sources;
+    this.cachedTrie = trie;
+    return domains;
+  }
+
+  /**
+   * Get the report of the last load or reload (successful or not)
+   * Returns null if nothing has been loaded yet
+   */
+  getLoadReport(): LoadReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Get the logger used for load messages
+   */
+  getLogger(): Logger {
+    return this.logger;
+  }
+
+  /**
+   * Replace the logger at runtime (also used for listener errors of the loader's events)
+   * @param logger - The new logger, e.g. silentLogger
+   */
+  setLogger(logger: Logger): void {
+    this.logger = logger;
+    this.events.setLogger(logger);
+  }
+
+  /**
+   * Get cached domains (returns null if not loaded yet)
+   */
+  getCached(): readonly string[] | null {
+    return this.cachedDomains;
+  }
+
+  /**
+   * Get the source provenance of the loaded domains
+   * Returns null if not loaded yet or if the list was loaded without provenance
+   */
+  getSourceIndex(): SourceIndex | null {
+    return this.cachedSources;
+  }
+
+  /**
+   * Get the lookup trie built while loading the cached domains (from a binary snapshot)
+   * Returns null if not loaded yet or if the list was loaded in another format
+   */
+  getTrie(): FrozenDomainTrie | null {
+    return this.cachedTrie;
+  }
+
+  /**
+   * Check if domains are loaded
+   */
+  isLoaded(): boolean {
+    return this.cachedDomains !== null;
+  }
+
+  /**
+   * Clear cache (useful for testing or forcing reload)
+   * Loads and reloads still running are discarded when they finish
+   */
+  clear(): void {
+    this.generation++;
+    this.cachedDomains = null;
+    this.cachedSources = null;
+    this.cachedTrie = null;
+    this.lastReport = null;
+    this.loadPromise = null;
+    this.reloadPromise = null;
+  }
+}
+
+/**
+ * Shared loader used by the module-level functions below and the default guard
+ */
+export const defaultLoader = new DomainLoader();
+
+/**
+ * Load domains - tries local JSON file first, then falls back to URLs
+ * @returns Promise that resolves to the domains array
+ */
+export async function loadDomains(): Promise<readonly string[]> {
+  return defaultLoader.load();
+}
+
+/**
+ * Load domains synchronously from the local data file (no network)
+ * @returns The domains array
+ * @throws DomainLoadError if there is no usable file
+ */
+export function loadDomainsSync(): readonly string[] {
+  return defaultLoader.loadSync();
+}
+
+/**
+ * Get the report of the last default list load (null if nothing has been loaded yet)
+ */
+export function getLoadReport(): LoadReport | null {
+  return defaultLoader.getLoadReport();
+}
+
+/**
+ * Load a fresh copy of the domain list (keeps the cached list if loading fails)
+ */
+export async function reloadDomains(): Promise<readonly string[]> {
+  return defaultLoader.reload();
 }
 
 /**
  * Get cached domains (returns null if not loaded yet)
  */
 export function getCachedDomains(): readonly string[] | null {
-  return cachedDomains;
+  return defaultLoader.getCached();
 }
 
 /**
  * Check if domains are loaded
  */
 export function isDomainsLoaded(): boolean {
-  return cachedDomains !== null;
+  return defaultLoader.isLoaded();
 }
 
 /**
  * Clear cache (useful for testing or forcing reload)
  */
 export function clearCache(): void {
-  cachedDomains = null;
-  loadPromise = null;
+  defaultLoader.clear();
 }
-
@@ -0,0 +1,199 @@
+/**
+ * Source provenance for the merged domain list
+ * Records which upstream sources listed each domain, stored as one bitmask per domain
+ */
+
+/**
+ * Current provenance file format version
+ */
+export const SOURCE_INDEX_VERSION = 1;
+
+/**
+ * Serialized provenance, stored next to the domain list (data/domain-sources.json)
+ * Masks are fixed-width hex strings concatenated in the same order as the domain list,
+ * which keeps the file a fraction of the size of listing source names per domain
+ */
+export interface SourceIndexData {
+  version: number;
+  /** Source keys, bit i of a mask refers to sources[i] */
+  sources: string[];
+  /** Hex digits per mask */
+  width: number;
+  /** Number of domains the masks were written for */
+  count: number;
+  masks: string;
+}
+
+/**
+ * Number of domains kept when requiring at least minSources sources
+ */
+export interface QuorumLevel {
+  minSources: number;
+  domains: number;
+}
+
+/**
+ * Count set bits in a source mask
+ */
+function countBits(mask: number): number {
+  let count = 0;
+  while (mask) {
+    mask &= mask - 1;
+    count++;
+  }
+  return count;
+}
+
+export class SourceIndex {
+  private readonly sourceKeys: readonly string[];
+  private readonly masks: Map<string, number>;
+
+  /**
+   * @param sourceKeys - Source names, bit i of a mask refers to sourceKeys[i]
+   * @param masks - Domain to source bitmask
+   */
+  constructor(sourceKeys: readonly string[], masks: Map<string, number>) {
+    this.sourceKeys = sourceKeys;
+    this.masks = masks;
+  }
+
+  /**
+   * Names of all sources known to this index
+   */
+  getSourceKeys(): readonly string[] {
+    return this.sourceKeys;
+  }
+
+  /**
+   * Get the sources that listed a domain (empty array if unknown)
+   */
+  getSources(domain: string): string[] {
+    const mask = this.masks.get(domain.toLowerCase());
+    if (!mask) {
+      return [];
+    }
+
+    const sources: string[] = [];
+    for (let i = 0; i < this.sourceKeys.length; i++) {
+      if (mask & (1 << i)) {
+        sources.push(this.sourceKeys[i]);
+      }
+    }
+    return sources;
+  }
+
+  /**
+   * Source bitmask of a domain (0 if unknown), bit i refers to getSourceKeys()[i]
+   */
+  getMask(domain: string): number {
+    return this.masks.get(domain.toLowerCase()) || 0;
+  }
+
+  /**
+   * Number of sources that listed a domain (0 if unknown)
+   */
+  getSourceCount(domain: string): number {
+    return countBits(this.masks.get(domain.toLowerCase()) || 0);
+  }
+
+  /**
+   * Weighted trust score of a domain: the sum of the weights of the sources that listed it
+   * Sources missing from weights count as 1
+   */
+  getScore(domain: string, weights: Readonly<Record<string, number>>): number {
+    const mask = this.masks.get(domain.toLowerCase()) || 0;
+    let score = 0;
+    for (let i = 0; i < this.sourceKeys.length; i++) {
+      if (mask & (1 << i)) {
+        const weight = weights[this.sourceKeys[i]];
+        score += weight === undefined ? 1 : weight;
+      }
+    }
+    return score;
+  }
+
+  /**
+   * Count how many domains each quorum level keeps
+   * Entry k (1-based level) is the number of domains listed by at least k sources
+   */
+  getQuorumReport(): QuorumLevel[] {
+    const exactCounts = new Array<number>(this.sourceKeys.length + 1).fill(0);
+    for (const mask of this.masks.values()) {
+      exactCounts[countBits(mask)]++;
+    }
+
+    const report: QuorumLevel[] = [];
+    let kept = 0;
+    for (let level = this.sourceKeys.length; level >= 1; level--) {
+      kept += exactCounts[level];
+      report.unshift({ minSources: level, domains: kept });
+    }
+    return report;
+  }
+
+  /**
+   * Record that a source listed a domain
+   */
+  add(domain: string, sourceKey: string): void {
+    const bit = this.sourceKeys.indexOf(sourceKey);
+    if (bit === -1) {
+      return;
+    }
+    this.masks.set(domain, (this.masks.get(domain) || 0) | (1 << bit));
+  }
+
+  /**
+   * Serialize the index for a domain list (masks are written in list order)
+   */
+  toData(domains: readonly string[]): SourceIndexData {
+    const width = Math.max(1, Math.ceil(this.sourceKeys.length / 4));
+    const parts: string[] = new Array(domains.length);
+    for (let i = 0; i < domains.length; i++) {
+      parts[i] = (this.masks.get(domains[i]) || 0).toString(16).padStart(width, '0');
+    }
+
+    return {
+      version: SOURCE_INDEX_VERSION,
+      sources: [...this.sourceKeys],
+      width,
+      count: domains.length,
+      masks: parts.join(''),
+    };
+  }
+
+  /**
+   * Restore an index from serialized data for the same domain list
+   * Returns null if the data doesn't match the list (wrong version or length)
+   */
+  static fromData(domains: readonly string[], data: SourceIndexData): SourceIndex | null {
+    if (
+      !data ||
+      data.version !== SOURCE_INDEX_VERSION ||
+      !Array.isArray(data.sources) ||
+      typeof data.masks !== 'string' ||
+      data.count !== domains.length ||
+      data.masks.length !== data.count * data.width
+    ) {
+      return null;
+    }
+
+    const masks = new Map<string, number>();
+    for (let i = 0; i < domains.length; i++) {
+      const mask = parseInt(data.masks.slice(i * data.width, (i + 1) * data.width), 16);
+      if (mask) {
+        masks.set(domains[i], mask);
+      }
+    }
+    return new SourceIndex(data.sources, masks);
+  }
+
+  /**
+   * Create an empty index for a list of sources
+   */
+  static forSources(sourceKeys: readonly string[]): SourceIndex {
+    if (sourceKeys.length > 31) {
+      throw new Error('SourceIndex supports at most 31 sources');
+    }
+    return new SourceIndex(sourceKeys, new Map());
+  }
+}
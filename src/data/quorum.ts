@@ -0,0 +1,54 @@
+/**
+ * Source quorum filtering
+ * Keeps only domains that enough independent sources agree on,
+ * either by source count or by a weighted trust score
+ */
+
+import { SourceIndex } from './provenance';
+
+export interface QuorumOptions {
+  /**
+   * Only treat a domain as disposable when at least this many sources list it
+   */
+  minSources?: number;
+  /**
+   * Trust weight per source key (sources not listed weigh 1)
+   * Used together with minScore
+   */
+  sourceWeights?: Readonly<Record<string, number>>;
+  /**
+   * Only treat a domain as disposable when the summed weights of the sources
+   * listing it reach this score
+   */
+  minScore?: number;
+}
+
+/**
+ * Check if any quorum rule is configured
+ */
+export function hasQuorum(options: QuorumOptions): boolean {
+  return (options.minSources !== undefined && options.minSources > 1) || options.minScore !== undefined;
+}
+
+/**
+ * Filter a domain list down to the domains that pass the quorum rules
+ * When both minSources and minScore are set, a domain must pass both
+ */
+export function applyQuorum(
+  domains: readonly string[],
+  sources: SourceIndex,
+  options: QuorumOptions
+): string[] {
+  const minSources = options.minSources || 1;
+  const weights = options.sourceWeights || {};
+
+  return domains.filter((domain) => {
+    if (sources.getSourceCount(domain) < minSources) {
+      return false;
+    }
+    if (options.minScore !== undefined && sources.getScore(domain, weights) < options.minScore) {
+      return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,232 @@
+/**
+ * Binary snapshot of the domain list, written by the aggregation script as data/all-domains.bin
+ * Loads faster than all-domains.json: no JSON parsing or per-domain normalization,
+ * and the lookup trie is built from the shared labels without splitting domains
+ * Source provenance can be stored in the same file, so the list and its provenance can't drift apart
+ *
+ * Layout (all integers little-endian):
+ * - header: "TEGS" magic, u16 version, u16 flags, u32 label count, u32 domain count
+ * - label table: every distinct label once, sorted, each as a u8 byte length and UTF-8 bytes
+ * - domains: in list order (sorted), each as a u8 label count and LEB128 label ids, left to right
+ * - provenance (flag 1): u8 source count, each source key as a u8 byte length and UTF-8 bytes,
+ *   then one LEB128 source bitmask per domain, in list order
+ *
+ * The whole file may be gzip-compressed, which is detected on load
+ */
+
+import { gunzipSync, gzipSync } from 'zlib';
+import { FrozenDomainTrie } from '../utils/frozen-trie';
+import { SourceIndex } from './provenance';
+
+/**
+ * Bundled snapshot written by the aggregation script next to all-domains.json
+ */
+export const SNAPSHOT_FILE = 'all-domains.bin';
+
+/**
+ * Current snapshot format version
+ */
+export const SNAPSHOT_VERSION = 1;
+
+const MAGIC = 'TEGS';
+const HEADER_SIZE = 16;
+
+/**
+ * Header flag: the snapshot ends with source provenance
+ */
+const FLAG_SOURCES = 1;
+
+/**
+ * A decoded snapshot: the domain list and its lookup trie, built in one pass from the interned labels
+ */
+export interface DomainSnapshot {
+  domains: string[];
+  trie: FrozenDomainTrie;
+  /** Sources that listed each domain, null if the snapshot has no provenance */
+  sources: SourceIndex | null;
+}
+
+export interface SnapshotOptions {
+  /** Gzip the snapshot (smaller file, slightly slower to load) */
+  gzip?: boolean;
+  /** Provenance to store with the domains */
+  sources?: SourceIndex | null;
+}
+
+/**
+ * Append an unsigned integer as LEB128 bytes
+ */
+function pushVarint(bytes: number[], value: number): void {
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+}
+
+/**
+ * Append a string as a u8 byte length and UTF-8 bytes
+ */
+function pushString(chunks: Buffer[], value: string, what: string): void {
+  const bytes = Buffer.from(value, 'utf-8');
+  if (bytes.length > 255) {
+    throw new Error(`${what} too long for a snapshot: ${value.slice(0, 20)}...`);
+  }
+  chunks.push(Buffer.from([bytes.length]), bytes);
+}
+
+/**
+ * Check whether a path names a binary snapshot (by its .bin extension)
+ */
+export function isSnapshotFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith('.bin');
+}
+
+/**
+ * Encode a normalized domain list as a snapshot
+ * @param domains - Domains in the order they should load in (the aggregation script sorts them)
+ */
+export function encodeSnapshot(domains: readonly string[], options: SnapshotOptions = {}): Buffer {
+  const labelIds = new Map<string, number>();
+  const split = domains.map((domain) => domain.split('.'));
+  for (const labels of split) {
+    for (const label of labels) {
+      labelIds.set(label, 0);
+    }
+  }
+  const labels = Array.from(labelIds.keys()).sort();
+  labels.forEach((label, id) => labelIds.set(label, id));
+
+  const chunks: Buffer[] = [];
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.write(MAGIC, 0, 'latin1');
+  header.writeUInt16LE(SNAPSHOT_VERSION, 4);
+  header.writeUInt16LE(options.sources ? FLAG_SOURCES : 0, 6);
+  header.writeUInt32LE(labels.length, 8);
+  header.writeUInt32LE(domains.length, 12);
+  chunks.push(header);
+
+  for (const label of labels) {
+    pushString(chunks, label, 'Label');
+  }
+
+  const record: number[] = [];
+  for (const domainLabels of split) {
+    if (domainLabels.length > 255) {
+      throw new Error('Domain has too many labels for a snapshot');
+    }
+    record.length = 0;
+    record.push(domainLabels.length);
+    for (const label of domainLabels) {
+      pushVarint(record, labelIds.get(label)!);
+    }
+    chunks.push(Buffer.from(record));
+  }
+
+  if (options.sources) {
+    const sourceKeys = options.sources.getSourceKeys();
+    chunks.push(Buffer.from([sourceKeys.length]));
+    for (const key of sourceKeys) {
+      pushString(chunks, key, 'Source key');
+    }
+    const masks: number[] = [];
+    for (const domain of domains) {
+      pushVarint(masks, options.sources.getMask(domain));
+    }
+    chunks.push(Buffer.from(masks));
+  }
+
+  const snapshot = Buffer.concat(chunks);
+  return options.gzip ? gzipSync(snapshot) : snapshot;
+}
+
+/**
+ * Decode a snapshot (plain or gzip-compressed) into its domain list, lookup trie and provenance
+ * Throws on unknown formats, unsupported versions and truncated data
+ */
+export function decodeSnapshot(data: Uint8Array): DomainSnapshot {
+  let bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    bytes = gunzipSync(bytes);
+  }
+  if (bytes.length < HEADER_SIZE || bytes.toString('latin1', 0, 4) !== MAGIC) {
+    throw new Error('Not a domain snapshot');
+  }
+  const version = bytes.readUInt16LE(4);
+  if (version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${version}`);
+  }
+
+  const flags = bytes.readUInt16LE(6);
+  const labelCount = bytes.readUInt32LE(8);
+  const domainCount = bytes.readUInt32LE(12);
+  let offset = HEADER_SIZE;
+
+  const readByte = (): number => {
+    const byte = bytes[offset++];
+    if (byte === undefined) {
+      throw new Error('Truncated domain snapshot');
+    }
+    return byte;
+  };
+  const readVarint = (): number => {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = readByte();
+      value |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value >>> 0;
+  };
+  const readString = (): string => {
+    const length = readByte();
+    if (offset + length > bytes.length) {
+      throw new Error('Truncated domain snapshot');
+    }
+    offset += length;
+    return bytes.toString('utf-8', offset - length, offset);
+  };
+
+  const labels = new Array<string>(labelCount);
+  for (let id = 0; id < labelCount; id++) {
+    labels[id] = readString();
+  }
+
+  const domains = new Array<string>(domainCount);
+  const ids: number[] = [];
+  const offsets = new Uint32Array(domainCount + 1);
+  const parts: string[] = [];
+  for (let i = 0; i < domainCount; i++) {
+    const count = readByte();
+    offsets[i] = ids.length;
+    parts.length = count;
+    for (let j = 0; j < count; j++) {
+      const id = readVarint();
+      const label = labels[id];
+      if (label === undefined) {
+        throw new Error(`Invalid label id ${id} in domain snapshot`);
+      }
+      parts[j] = label;
+      ids.push(id);
+    }
+    domains[i] = parts.join('.');
+  }
+  offsets[domainCount] = ids.length;
+
+  let sources: SourceIndex | null = null;
+  if (flags & FLAG_SOURCES) {
+    const sourceKeys = Array.from({ length: readByte() }, readString);
+    const masks = new Map<string, number>();
+    for (const domain of domains) {
+      const mask = readVarint();
+      if (mask) {
+        masks.set(domain, mask);
+      }
+    }
+    sources = new SourceIndex(sourceKeys, masks);
+  }
+
+  return { domains, trie: FrozenDomainTrie.fromLabelIds({ labels, ids: Uint32Array.from(ids), offsets }), sources };
+}
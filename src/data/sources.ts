@@ -0,0 +1,175 @@
+/**
+ * Upstream domain sources
+ * Shared by the runtime loader and the aggregation script so both
+ * record provenance under the same source keys
+ */
+
+/**
+ * List formats
+ * - json: array of domains, or an object with a domains array
+ * - text: one domain per line, # and // comments
+ * - csv: domain in the first column, rows without a dot (e.g. a header) are skipped
+ */
+export type SourceFormat = 'json' | 'text' | 'csv';
+
+export interface DomainSource {
+  /** Stable identifier, recorded in provenance data */
+  key: string;
+  /** Human readable name used in logs */
+  name: string;
+  /** http(s) URL, or a local file path (custom sources only) */
+  url: string;
+  type: SourceFormat;
+  /** Optional post-processing of the parsed domains */
+  transform?: (domains: string[]) => string[];
+}
+
+/**
+ * All domain sources for maximum coverage
+ * Aggregates from 9 major public datasets
+ * Order matters: a source's position is its bit in provenance masks
+ */
+export const DOMAIN_SOURCES: readonly DomainSource[] = [
+  // Primary: disposable-email-domains (most used, community maintained)
+  {
+    key: 'primary',
+    name: 'disposable-email-domains',
+    url: 'https://raw.githubusercontent.com/disposable-email-domains/disposable-email-domains/main/disposable_email_blocklist.conf',
+    type: 'text',
+  },
+  // IntegerAlex disposable-email-detector (JSON format, large dataset ~185k)
+  {
+    key: 'detector',
+    name: 'disposable-email-detector',
+    url: 'https://raw.githubusercontent.com/IntegerAlex/disposable-email-detector/refs/heads/main/index.json',
+    type: 'json',
+  },
+  // ivolo disposable-email-domains (additional coverage)
+  {
+    key: 'ivolo',
+    name: 'ivolo-disposable',
+    url: 'https://raw.githubusercontent.com/ivolo/disposable-email-domains/master/index.json',
+    type: 'json',
+  },
+  // martenson disposable-email-domains (legacy providers)
+  {
+    key: 'martenson',
+    name: 'martenson-disposable',
+    url: 'https://raw.githubusercontent.com/martenson/disposable-email-domains/master/disposable_email_blocklist.conf',
+    type: 'text',
+  },
+  // Mailchecker list
+  {
+    key: 'mailchecker',
+    name: 'mailchecker',
+    url: 'https://raw.githubusercontent.com/FGRibreau/mailchecker/master/list.txt',
+    type: 'text',
+  },
+  // sajjadh47 - Over 100k domains
+  {
+    key: 'sajjadh47',
+    name: 'sajjadh47-disposable',
+    url: 'https://raw.githubusercontent.com/sajjadh47/disposable-email-domains-list/master/domains.json',
+    type: 'json',
+  },
+  // WebSnifferHQ disposable-email-domains
+  {
+    key: 'websniffer',
+    name: 'websniffer-disposable',
+    url: 'https://raw.githubusercontent.com/WebSnifferHQ/disposable-email-domains/main/disposable-email-domains.txt',
+    type: 'text',
+  },
+  // groundcat disposable-email-domain-list (MX validated)
+  {
+    key: 'groundcat',
+    name: 'groundcat-disposable',
+    url: 'https://raw.githubusercontent.com/groundcat/disposable-email-domain-list/master/domains.json',
+    type: 'json',
+  },
+  // disposable/disposable (updated every 24h)
+  {
+    key: 'disposableMain',
+    name: 'disposable-main',
+    url: 'https://raw.githubusercontent.com/disposable/disposable-email-domains/master/domains.txt',
+    type: 'text',
+  },
+];
+
+/**
+ * Keys of all sources, in provenance bit order
+ */
+export const DOMAIN_SOURCE_KEYS: readonly string[] = DOMAIN_SOURCES.map((source) => source.key);
+
+/**
+ * A custom source: a URL or local file path, or a full definition
+ * Key defaults to the location, format to the file extension (text if unknown)
+ */
+export type SourceInput = string | (Partial<DomainSource> & { url: string });
+
+/**
+ * Custom function returning the whole domain list
+ * Receives the load's abort signal (caller abort or load deadline)
+ */
+export type DomainProvider = (signal: AbortSignal) => Promise<Iterable<string>>;
+
+/**
+ * Where the loader gets the domain list from
+ */
+export interface SourceOptions {
+  /**
+   * Local list to load first instead of the bundled data/all-domains.json
+   * (json, text or csv by extension), the sources are the fallback
+   */
+  dataFile?: string;
+  /**
+   * URLs or local files replacing DOMAIN_SOURCES
+   * When set without dataFile, the bundled file is skipped
+   */
+  sources?: readonly SourceInput[];
+  /**
+   * Custom function replacing the data file and all sources
+   */
+  provider?: DomainProvider;
+}
+
+/**
+ * Whether a source location is fetched over HTTP (otherwise it is a local file)
+ */
+export function isRemoteSource(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+/**
+ * Guess the format of a list from its file extension
+ */
+export function detectSourceFormat(location: string): SourceFormat {
+  const path = location.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith('.json')) {
+    return 'json';
+  }
+  if (path.endsWith('.csv')) {
+    return 'csv';
+  }
+  return 'text';
+}
+
+/**
+ * Turn custom source inputs into source definitions
+ * @throws If two sources have the same key
+ */
+export function resolveSources(inputs: readonly SourceInput[]): DomainSource[] {
+  const sources = inputs.map((input): DomainSource => {
+    const { url, ...rest } = typeof input === 'string' ? { url: input } : input;
+    const key = rest.key || url;
+    return { ...rest, key, name: rest.name || key, url, type: rest.type || detectSourceFormat(url) };
+  });
+
+  const keys = new Set<string>();
+  for (const source of sources) {
+    if (keys.has(source.key)) {
+      throw new Error(`Duplicate source key "${source.key}"`);
+    }
+    keys.add(source.key);
+  }
+  return sources;
+}
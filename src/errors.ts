@@ -0,0 +1,30 @@
+/**
+ * Error classes
+ */
+
+import type { LoadReport } from './data/load-report';
+
+/**
+ * Loading the domain list failed or didn't reach the required coverage
+ */
+export class DomainLoadError extends Error {
+  /** Per-source details of the failed load */
+  readonly report: LoadReport;
+
+  constructor(message: string, report: LoadReport) {
+    super(message);
+    this.name = 'DomainLoadError';
+    this.report = report;
+  }
+}
+
+/**
+ * A synchronous check needed the domain list before it was loaded (strict mode)
+ * Thrown instead of returning a false negative
+ */
+export class DomainsNotLoadedError extends Error {
+  constructor(message = 'Domain list is not loaded: call initialize() or initializeSync() first') {
+    super(message);
+    this.name = 'DomainsNotLoadedError';
+  }
+}
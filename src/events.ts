@@ -0,0 +1,156 @@
+/**
+ * Lifecycle events
+ * Loading, refresh, cache and detection events for wiring the guard into
+ * logging, alerting and analytics
+ */
+
+import { EventEmitter } from 'events';
+import { Logger, consoleLogger } from './logger';
+import type { PipelineStage } from './pipeline';
+import type { OverrideMatch } from './types';
+import type { LoadOrigin } from './data/load-report';
+
+export interface LoadStartEvent {
+  /** True for background/manual refreshes, false for the initial load */
+  refresh: boolean;
+}
+
+export interface SourceFailedEvent {
+  /** Source key (e.g. "primary") */
+  source: string;
+  url: string;
+  error: Error;
+}
+
+export interface LoadCompleteEvent {
+  refresh: boolean;
+  /** Where the list came from: a local data file, the sources or the provider function */
+  origin: LoadOrigin;
+  /** Number of domains loaded (after quorum filtering) */
+  domains: number;
+  /** Keys of the sources that failed */
+  failedSources: string[];
+  durationMs: number;
+}
+
+export interface LoadFailedEvent {
+  refresh: boolean;
+  error: Error;
+  durationMs: number;
+}
+
+export interface RefreshEvent {
+  /** Whether the new list was swapped in */
+  success: boolean;
+  /** Number of domains in use after the refresh */
+  domains: number;
+  durationMs: number;
+  /** Why the refresh failed (the old list is kept) */
+  error?: Error;
+}
+
+export interface CacheEvictEvent {
+  cache: 'result' | 'suggestion';
+  /** Evicted domain, null when the whole cache was cleared */
+  domain: string | null;
+  /**
+   * - capacity: least recently used entry dropped to make room
+   * - expired: entry outlived the cache ttl
+   * - refresh: the domain list was swapped
+   * - rules: the allowlist or denylist changed
+   * - clear: clearCache() was called
+   */
+  reason: 'capacity' | 'expired' | 'refresh' | 'rules' | 'clear';
+}
+
+export interface DetectedEvent {
+  email: string;
+  /** Normalized domain */
+  domain: string;
+  /** Stage that flagged the address ("list" for synchronous checks) */
+  stage: PipelineStage;
+  /** Denylist rule that flagged the address, if any */
+  override: OverrideMatch | null;
+}
+
+export interface GuardEventMap {
+  'load:start': LoadStartEvent;
+  'load:source-failed': SourceFailedEvent;
+  'load:complete': LoadCompleteEvent;
+  'load:failed': LoadFailedEvent;
+  'refresh': RefreshEvent;
+  'cache:evict': CacheEvictEvent;
+  'detected': DetectedEvent;
+}
+
+export type GuardEventName = keyof GuardEventMap;
+
+export type GuardEventListener<K extends GuardEventName> = (event: GuardEventMap[K]) => void;
+
+/**
+ * Typed event emitter shared by a loader and the guards using it
+ * Listener errors are caught and logged, so a failing hook never breaks a check
+ */
+export class GuardEvents {
+  private readonly emitter = new EventEmitter();
+  private logger: Logger;
+
+  /**
+   * @param logger - Where listener errors are logged (default: the console)
+   */
+  constructor(logger: Logger = consoleLogger) {
+    this.logger = logger;
+    // Several guards may subscribe to a shared loader
+    this.emitter.setMaxListeners(0);
+  }
+
+  on<K extends GuardEventName>(event: K, listener: GuardEventListener<K>): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  once<K extends GuardEventName>(event: K, listener: GuardEventListener<K>): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  off<K extends GuardEventName>(event: K, listener: GuardEventListener<K>): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Replace the logger used for listener errors
+   */
+  setLogger(logger: Logger): void {
+    this.logger = logger;
+  }
+
+  /**
+   * Check if an event has listeners (to skip building payloads nobody reads)
+   */
+  hasListeners(event: GuardEventName): boolean {
+    return this.emitter.listenerCount(event) > 0;
+  }
+
+  emit<K extends GuardEventName>(event: K, payload: GuardEventMap[K]): void {
+    if (!this.hasListeners(event)) {
+      return;
+    }
+    // rawListeners includes the wrappers of once() listeners, which remove themselves
+    for (const listener of this.emitter.rawListeners(event)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.logger.error(`❌ Listener for "${event}" failed:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Normalize a thrown value to an Error
+ */
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
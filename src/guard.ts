@@ -0,0 +1,1126 @@
+/**
+ * EmailGuard - an independent temp email checker
+ * Each instance owns its own domain trie, result cache and loader,
+ * so differently configured guards can run side by side
+ */
+
+import { DomainLoader, DomainLoaderOptions, LoadOptions } from './data/loader';
+import type { LoadReport } from './data/load-report';
+import { CategoryDomains, CategoryIndex, DomainCategory } from './data/categories';
+import { QuorumLevel, SourceIndex } from './data/provenance';
+import { FrozenDomainTrie } from './utils/frozen-trie';
+import { DomainRuleInput, DomainRules } from './utils/domain-rules';
+import { getDisposableMXMatch } from './utils/dns-detector';
+import { matchDisposableKeyword } from './utils/heuristics';
+import { EmailParserOptions, parseEmail } from './utils/email-parser';
+import { detectConfusable, toAsciiDomain } from './utils/idn';
+import { CanonicalizeOptions, canonicalizeEmail } from './utils/canonicalize';
+import { DomainSuggestion, SuggestOptions, suggestDomainFor } from './utils/suggest';
+import { RoleAccountOptions, RoleAccounts } from './utils/role-accounts';
+import { CacheOptions, CacheStats, EvictionReason, LRUCache, ResultCache } from './utils/lru-cache';
+import { CacheEvictEvent, GuardEventListener, GuardEventName, GuardEvents, toError } from './events';
+import { DomainsNotLoadedError } from './errors';
+import {
+  DEFAULT_PIPELINE_STAGES,
+  DEFAULT_STAGE_TIMEOUTS,
+  PipelineOptions,
+  PipelineStage,
+  PipelineVerdict,
+  TIMED_OUT,
+  withTimeout,
+} from './pipeline';
+import {
+  DEFAULT_RISKY_TLDS,
+  RiskAssessment,
+  RiskOptions,
+  RiskSignal,
+  createSignal,
+  looksRandom,
+  scoreSignals,
+  sourceAgreementSignal,
+} from './risk';
+import type { CheckResult, FailMode, OverrideMatch, ValidationResult, Verdict } from './types';
+
+/**
+ * Default max number of domains kept in the per-guard result caches
+ */
+const DEFAULT_CACHE_SIZE = 1000;
+
+/**
+ * Options for creating an EmailGuard
+ * Loader options (e.g. minSources) configure the guard's own loader
+ * and are ignored when a loader is passed in
+ */
+export interface EmailGuardOptions extends DomainLoaderOptions {
+  /**
+   * Fixed domain list to check against instead of loading one
+   * When set, the loader is never used
+   */
+  domains?: readonly string[];
+  /**
+   * Loader used to fetch domains (defaults to a new DomainLoader owned by the guard)
+   */
+  loader?: DomainLoader;
+  /**
+   * Domains never treated as disposable, even when listed
+   * Array of entries or path to a file with one entry per line, "*.example.com" matches subdomains only
+   */
+  allow?: DomainRuleInput;
+  /**
+   * Domains always treated as disposable, even when not listed (takes precedence over allow)
+   * Array of entries or path to a file with one entry per line, "*.example.com" matches subdomains only
+   */
+  deny?: DomainRuleInput;
+  /**
+   * Default stages and timeouts for the async functions
+   * Can be overridden per call
+   */
+  pipeline?: PipelineOptions;
+  /**
+   * Risk scoring thresholds, signal weights and risky TLDs
+   */
+  risk?: RiskOptions;
+  /**
+   * Address parser options used by validateEmail (e.g. allowDomainLiterals)
+   */
+  parser?: EmailParserOptions;
+  /**
+   * Provider rules for canonicalizeEmail and ValidationResult.canonicalEmail
+   */
+  canonical?: CanonicalizeOptions;
+  /**
+   * Popular domains, TLDs and max edit distance for typo suggestions
+   */
+  suggest?: SuggestOptions;
+  /**
+   * Webmail and relay domain lists replacing the bundled datasets
+   * (data/webmail-domains.json and data/relay-domains.json)
+   */
+  categories?: CategoryDomains;
+  /**
+   * Role account locales and extra names (e.g. { locales: ['en', 'de'], accounts: ['trials'] })
+   */
+  roleAccounts?: RoleAccountOptions;
+  /**
+   * Reload the domain list in the background every refreshInterval ms
+   * The new list replaces the old one atomically, a failed refresh keeps the old list
+   */
+  refreshInterval?: number;
+  /**
+   * Result cache size and ttl, or a custom cache for verdicts
+   */
+  cache?: CacheOptions;
+  /**
+   * Throw DomainsNotLoadedError from synchronous checks that need the domain list
+   * before it is loaded, instead of reporting the address as not disposable
+   * Shorthand for failMode: 'throw'
+   */
+  strict?: boolean;
+  /**
+   * How boolean checks answer when the domain list is unavailable (default: 'open')
+   * Overrides strict
+   */
+  failMode?: FailMode;
+}
+
+/**
+ * Lookup structures built from one domain list
+ * Kept together so they are always replaced as a unit
+ */
+interface DomainIndex {
+  /** Read-only trie for exact and subdomain matches, far smaller than a Set plus a Map-based trie */
+  trie: FrozenDomainTrie;
+  /** The loaded list itself, shared rather than copied */
+  array: readonly string[];
+  sources: SourceIndex | null;
+}
+
+/**
+ * Build lookup structures from a domain list
+ * @param trie - Trie already built for these domains (e.g. while reading a binary snapshot)
+ */
+function buildIndex(domains: readonly string[], sources: SourceIndex | null, trie: FrozenDomainTrie | null = null): DomainIndex {
+  return {
+    trie: trie || FrozenDomainTrie.fromDomains(domains),
+    array: domains,
+    sources,
+  };
+}
+
+export class EmailGuard {
+  /**
+   * Lifecycle events, shared with the guard's loader
+   * (guards sharing a loader also share its emitter)
+   */
+  readonly events: GuardEvents;
+  private readonly loader: DomainLoader;
+  private readonly staticDomains: readonly string[] | null;
+  private index: DomainIndex | null = null;
+  private allowRules: DomainRules;
+  private denyRules: DomainRules;
+  private readonly pipeline: PipelineOptions;
+  private readonly riskOptions: RiskOptions;
+  private readonly parserOptions: EmailParserOptions;
+  private readonly canonicalOptions: CanonicalizeOptions;
+  private readonly suggestOptions: SuggestOptions;
+  private readonly categoryDomains: CategoryDomains;
+  private categoryIndex: CategoryIndex | null = null;
+  private readonly roleAccounts: RoleAccounts;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+
+  /**
+   * Verdicts for recently checked domains (LRU unless a custom store is configured)
+   * Speeds up repeated lookups of the same domains
+   */
+  private readonly resultCache: ResultCache<boolean>;
+
+  /**
+   * Typo suggestions for recently checked domains (null = no suggestion)
+   * Only filled once domains are loaded, since suggestions exclude disposable domains
+   */
+  private readonly suggestionCache: LRUCache<string | null>;
+
+  private cacheHits = 0;
+  private cacheMisses = 0;
+  private cacheEvictions = 0;
+  private failMode: FailMode;
+
+  constructor(options: EmailGuardOptions = {}) {
+    this.loader = options.loader || new DomainLoader(options);
+    this.events = this.loader.events;
+    this.staticDomains = options.domains || null;
+    this.allowRules = new DomainRules(options.allow);
+    this.denyRules = new DomainRules(options.deny);
+    this.pipeline = options.pipeline || {};
+    this.riskOptions = options.risk || {};
+    this.parserOptions = options.parser || {};
+    this.canonicalOptions = options.canonical || {};
+    this.suggestOptions = options.suggest || {};
+    this.categoryDomains = options.categories || {};
+    this.roleAccounts = new RoleAccounts(options.roleAccounts);
+    this.failMode = options.failMode || (options.strict ? 'throw' : 'open');
+
+    const cacheOptions = options.cache || {};
+    const maxSize = cacheOptions.maxSize ?? DEFAULT_CACHE_SIZE;
+    this.resultCache = cacheOptions.store || new LRUCache<boolean>({
+      maxSize,
+      ttl: cacheOptions.ttl,
+      onEvict: (domain, reason) => {
+        this.cacheEvictions++;
+        this.emitEvicted('result', domain, reason);
+      },
+    });
+    this.suggestionCache = new LRUCache<string | null>({
+      maxSize,
+      ttl: cacheOptions.ttl,
+      onEvict: (domain, reason) => this.emitEvicted('suggestion', domain, reason),
+    });
+
+    if (options.refreshInterval) {
+      this.setRefreshInterval(options.refreshInterval);
+    }
+  }
+
+  /**
+   * Replace the allowlist at runtime (the base list is not reloaded)
+   * @param input - Array of entries or path to a rules file
+   */
+  setAllowlist(input: DomainRuleInput): void {
+    this.allowRules = new DomainRules(input);
+    this.clearResultCaches('rules');
+  }
+
+  /**
+   * Replace the denylist at runtime (the base list is not reloaded)
+   * @param input - Array of entries or path to a rules file
+   */
+  setDenylist(input: DomainRuleInput): void {
+    this.denyRules = new DomainRules(input);
+    this.clearResultCaches('rules');
+  }
+
+  /**
+   * Get the current allowlist entries
+   */
+  getAllowlist(): readonly string[] {
+    return this.allowRules.getEntries();
+  }
+
+  /**
+   * Get the current denylist entries
+   */
+  getDenylist(): readonly string[] {
+    return this.denyRules.getEntries();
+  }
+
+  /**
+   * Subscribe to a lifecycle event
+   * @param event - Event name (e.g. "load:complete", "detected")
+   * @param listener - Called with the event payload, errors thrown by it are logged and ignored
+   */
+  on<K extends GuardEventName>(event: K, listener: GuardEventListener<K>): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Subscribe to the next occurrence of a lifecycle event
+   */
+  once<K extends GuardEventName>(event: K, listener: GuardEventListener<K>): this {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Unsubscribe from a lifecycle event
+   */
+  off<K extends GuardEventName>(event: K, listener: GuardEventListener<K>): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Initialize the guard (loads domains)
+   * Call this before using isTempEmail for best performance
+   * @param options - Abort signal to stop waiting (e.g. AbortSignal.timeout(5000))
+   * @returns Promise that resolves when domains are loaded
+   */
+  async initialize(options: LoadOptions = {}): Promise<void> {
+    await this.ensureDomainsLoaded(options.signal);
+  }
+
+  /**
+   * Initialize the guard synchronously from the local data file
+   * (the loader's dataFile, or the bundled data/all-domains.json), without network access
+   * For CLIs, config validators and serverless handlers that can't await initialize()
+   * @throws DomainLoadError if there is no usable local file
+   */
+  initializeSync(): void {
+    if (this.getIndexSync()) {
+      return;
+    }
+    const domains = this.loader.loadSync();
+    this.index = this.indexLoaded(domains);
+  }
+
+  /**
+   * Turn strict mode on or off (see EmailGuardOptions.strict)
+   */
+  setStrict(strict: boolean): void {
+    this.setFailMode(strict ? 'throw' : 'open');
+  }
+
+  /**
+   * Change how checks answer when the domain list is unavailable (see EmailGuardOptions.failMode)
+   */
+  setFailMode(mode: FailMode): void {
+    this.failMode = mode;
+  }
+
+  /**
+   * Reload the domain list and swap it in atomically
+   * The new trie is built completely before replacing the old one,
+   * so checks running meanwhile see either the old or the new list, never a partial one
+   * Result caches are cleared on swap. If loading fails the current list is kept
+   * Other guards sharing the loader keep their list until they refresh themselves
+   * Emits a refresh event with the outcome
+   * @returns True if the list was replaced, false if the refresh failed or the guard has a fixed list
+   */
+  async refresh(): Promise<boolean> {
+    if (this.staticDomains) {
+      return false;
+    }
+    // Share a refresh that is already running
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    this.refreshPromise = (async () => {
+      const startedAt = Date.now();
+      try {
+        const domains = await this.loader.reload();
+        const index = this.indexLoaded(domains);
+        this.index = index;
+        this.clearResultCaches('refresh');
+        this.events.emit('refresh', { success: true, domains: domains.length, durationMs: Date.now() - startedAt });
+        return true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.loader.getLogger().warn(`⚠️  Domain list refresh failed, keeping the current list: ${message}`);
+        this.events.emit('refresh', {
+          success: false,
+          domains: this.getDomains().length,
+          durationMs: Date.now() - startedAt,
+          error: toError(error),
+        });
+        return false;
+      } finally {
+        this.refreshPromise = null;
+      }
+    })();
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Start, change or stop the background refresh
+   * The timer doesn't keep the process alive
+   * @param intervalMs - Refresh interval in ms, or null to stop refreshing
+   */
+  setRefreshInterval(intervalMs: number | null): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (intervalMs && intervalMs > 0) {
+      this.refreshTimer = setInterval(() => {
+        void this.refresh();
+      }, intervalMs);
+      this.refreshTimer.unref?.();
+    }
+  }
+
+  /**
+   * Get the report of the loader's last load or reload: origin, per-source
+   * HTTP status, domain counts, durations and errors
+   * Returns null if nothing has been loaded yet or the guard has a fixed list
+   */
+  getLoadReport(): LoadReport | null {
+    return this.staticDomains ? null : this.loader.getLoadReport();
+  }
+
+  /**
+   * Check if this guard has domains ready for synchronous checks
+   */
+  isLoaded(): boolean {
+    return this.index !== null;
+  }
+
+  /**
+   * Get domains array (synchronous, returns empty array if not loaded)
+   */
+  getDomains(): readonly string[] {
+    return this.index?.array || [];
+  }
+
+  /**
+   * Get domains array (async, ensures domains are loaded first)
+   */
+  async getDomainsAsync(): Promise<readonly string[]> {
+    await this.ensureDomainsLoaded();
+    return this.getDomains();
+  }
+
+  /**
+   * Get the upstream sources that list a domain
+   * Returns an empty array if the domain isn't listed, domains haven't been
+   * loaded yet, or the list was loaded without provenance
+   * @param domain - A listed domain (e.g. "tempmail.com", Unicode domains are converted to punycode)
+   */
+  getDomainSources(domain: string): string[] {
+    const index = this.getIndexSync();
+    if (!index || !index.sources || !domain || typeof domain !== 'string') {
+      return [];
+    }
+    return index.sources.getSources(toAsciiDomain(domain.trim()));
+  }
+
+  /**
+   * Report how many loaded domains each source quorum level would keep
+   * (level k = domains listed by at least k sources)
+   * Returns an empty array if provenance is unavailable
+   */
+  getQuorumReport(): QuorumLevel[] {
+    const index = this.getIndexSync();
+    return index && index.sources ? index.sources.getQuorumReport() : [];
+  }
+
+  /**
+   * Check if an email address is from a temporary email service
+   * Precedence: denylist, then allowlist, then the loaded domain list
+   * If domains haven't been loaded yet (and no rule matches) the answer depends on failMode
+   * Emits a detected event for disposable addresses
+   * @param email - The email address to check
+   * @returns True if the email is from a temporary email service
+   */
+  isTempEmail(email: string): boolean {
+    // Fast early exit for invalid input
+    if (!email || typeof email !== 'string') {
+      return false;
+    }
+
+    const domain = extractDomain(email);
+    if (!domain) {
+      return false;
+    }
+    const verdict = this.domainVerdict(domain);
+    if (verdict === 'disposable') {
+      this.emitDetected(email, domain, 'list');
+    }
+    return this.resolveVerdict(verdict);
+  }
+
+  /**
+   * Get the tri-state verdict for an email, without applying failMode
+   * "unknown" means no rule matched and the domain list isn't loaded yet
+   * @param email - The email address to check
+   * @returns The verdict, or null if no domain could be extracted
+   */
+  getVerdict(email: string): Verdict | null {
+    const domain = email && typeof email === 'string' ? extractDomain(email) : '';
+    return domain ? this.domainVerdict(domain) : null;
+  }
+
+  /**
+   * Async version that ensures domains are loaded and runs the detection pipeline
+   * Resolves to "unknown" instead of rejecting when the domain list can't be loaded
+   */
+  async getVerdictAsync(email: string, options?: PipelineOptions): Promise<Verdict | null> {
+    const domain = email && typeof email === 'string' ? extractDomain(email) : '';
+    return domain ? (await this.runPipeline(email, options, false)).verdict : null;
+  }
+
+  /**
+   * Check a normalized domain against the rules and the loaded domain list
+   * Webmail providers and privacy relays are never disposable unless denylisted, listed subdomains of them are
+   * Unknown verdicts are not cached, so they are re-checked once the list is loaded
+   */
+  private domainVerdict(domain: string): Verdict {
+    // Check cache first (O(1) lookup for repeated domains)
+    const cachedResult = this.resultCache.get(domain);
+    if (cachedResult !== undefined) {
+      this.cacheHits++;
+      return cachedResult ? 'disposable' : 'clean';
+    }
+    this.cacheMisses++;
+
+    const verdict = this.lookupVerdict(domain);
+    if (verdict !== 'unknown') {
+      this.resultCache.set(domain, verdict === 'disposable');
+    }
+    return verdict;
+  }
+
+  /**
+   * Uncached domainVerdict, for lookups that shouldn't show up in the cache or its stats
+   */
+  private lookupVerdict(domain: string): Verdict {
+    const override = this.matchOverride(domain);
+    if (override) {
+      return override.type === 'deny' ? 'disposable' : 'clean';
+    }
+    if (this.getCategoryIndex().get(domain)) {
+      return 'clean';
+    }
+    const index = this.getIndexSync();
+    if (!index) {
+      return 'unknown';
+    }
+    // Hits on a dataset domain itself don't count, listed subdomains of it (throwaway.mail.example) do
+    const matchedEntry = index.trie.findMatch(domain);
+    return matchedEntry !== null && !this.getCategoryIndex().get(matchedEntry) ? 'disposable' : 'clean';
+  }
+
+  /**
+   * Turn a verdict into a boolean answer, applying failMode to unknown verdicts
+   * @param error - Load error to throw in throw mode (defaults to DomainsNotLoadedError)
+   * @throws In throw mode when the verdict is unknown
+   */
+  private resolveVerdict(verdict: Verdict, error?: Error): boolean {
+    if (verdict !== 'unknown') {
+      return verdict === 'disposable';
+    }
+    if (this.failMode === 'throw') {
+      throw error || new DomainsNotLoadedError();
+    }
+    return this.failMode === 'closed';
+  }
+
+  /**
+   * Async version that ensures domains are loaded and runs the detection pipeline
+   * (list lookup, then MX pattern check, then optional heuristics)
+   * @param email - The email address to check
+   * @param options - Stages and timeouts for this call (defaults to the guard's pipeline)
+   */
+  async isTempEmailAsync(email: string, options?: PipelineOptions): Promise<boolean> {
+    const verdict = await this.runPipeline(email, options);
+    return verdict.isTempEmail;
+  }
+
+  /**
+   * Explain the verdict for an email: which rule matched, the listed entry
+   * that matched, which upstream sources contained it and any allow/deny override
+   * If domains haven't been loaded yet the verdict is unknown and isTempEmail depends on failMode
+   * @param email - The email address to check
+   */
+  checkEmail(email: string): CheckResult {
+    const domain = email && typeof email === 'string' ? extractDomain(email) : '';
+    const result: CheckResult = {
+      email,
+      domain: domain || null,
+      isTempEmail: false,
+      matchType: null,
+      matchedEntry: null,
+      sources: [],
+      override: null,
+      category: null,
+      verdict: null,
+    };
+
+    if (!domain) {
+      return result;
+    }
+
+    result.override = this.matchOverride(domain);
+    result.verdict = this.domainVerdict(domain);
+    result.isTempEmail = this.resolveVerdict(result.verdict);
+    result.category = this.categorize(domain, result.isTempEmail);
+
+    const index = this.getIndexSync();
+    if (!index) {
+      return result;
+    }
+
+    if (index.trie.has(domain)) {
+      result.matchType = 'exact';
+      result.matchedEntry = domain;
+    } else {
+      const matchedEntry = index.trie.findMatch(domain);
+      if (matchedEntry) {
+        result.matchType = 'subdomain';
+        result.matchedEntry = matchedEntry;
+      }
+    }
+
+    if (result.matchedEntry) {
+      result.sources = index.sources ? index.sources.getSources(result.matchedEntry) : [];
+    }
+
+    return result;
+  }
+
+  /**
+   * Async version that ensures domains are loaded
+   */
+  async checkEmailAsync(email: string): Promise<CheckResult> {
+    await this.loadForCheck();
+    return this.checkEmail(email);
+  }
+
+  /**
+   * Score how likely an email is to be disposable (0-100) with a band,
+   * a suggested action and the signals that contributed
+   * Uses list, rule, TLD and local-part signals (no DNS, see assessEmailAsync)
+   * @param email - The email address to assess
+   */
+  assessEmail(email: string): RiskAssessment {
+    return scoreSignals(this.collectRiskSignals(email), this.riskOptions);
+  }
+
+  /**
+   * Async version that ensures domains are loaded and adds the MX pattern signal
+   */
+  async assessEmailAsync(email: string): Promise<RiskAssessment> {
+    await this.loadForCheck();
+    const signals = this.collectRiskSignals(email);
+
+    const domain = email && typeof email === 'string' ? extractDomain(email) : '';
+    if (domain && !signals.some((signal) => signal.name === 'allowlisted')) {
+      const timeout = this.pipeline.timeouts?.mx ?? DEFAULT_STAGE_TIMEOUTS.mx;
+      const mxMatch = await withTimeout(getDisposableMXMatch(domain), timeout);
+      if (mxMatch && mxMatch !== TIMED_OUT) {
+        signals.push(createSignal('mx-pattern', `MX host ${mxMatch} matches a disposable mail server`, this.riskOptions));
+      }
+    }
+
+    return scoreSignals(signals, this.riskOptions);
+  }
+
+  /**
+   * Collect the synchronous risk signals for an email
+   */
+  private collectRiskSignals(email: string): RiskSignal[] {
+    const signals: RiskSignal[] = [];
+    const check = this.checkEmail(email);
+    if (!check.domain) {
+      return signals;
+    }
+
+    if (check.override) {
+      const name = check.override.type === 'deny' ? 'denylisted' : 'allowlisted';
+      signals.push(createSignal(name, `matches ${check.override.type} rule ${check.override.rule}`, this.riskOptions));
+    }
+
+    // Listed webmail providers and relays are not disposable, skip the list signals
+    if (check.matchedEntry && check.category !== 'webmail' && check.category !== 'relay') {
+      if (check.matchType === 'exact') {
+        signals.push(createSignal('list-hit', `${check.matchedEntry} is listed`, this.riskOptions));
+      } else {
+        signals.push(createSignal('subdomain-match', `parent domain ${check.matchedEntry} is listed`, this.riskOptions));
+      }
+
+      const sources = this.index?.sources;
+      const agreement = sources && sourceAgreementSignal(sources.getSourceCount(check.matchedEntry), this.riskOptions);
+      if (agreement) {
+        signals.push(agreement);
+      }
+    }
+
+    const lookalike = detectConfusable(check.domain);
+    if (lookalike) {
+      signals.push(createSignal('confusable-domain', `domain imitates ${lookalike}`, this.riskOptions));
+    }
+
+    const tld = check.domain.slice(check.domain.lastIndexOf('.') + 1);
+    const riskyTlds = this.riskOptions.riskyTlds || DEFAULT_RISKY_TLDS;
+    if (riskyTlds.includes(tld)) {
+      signals.push(createSignal('risky-tld', `.${tld} is a high-abuse TLD`, this.riskOptions));
+    }
+
+    const localPart = email.trim().slice(0, email.trim().lastIndexOf('@'));
+    if (looksRandom(localPart)) {
+      signals.push(createSignal('random-local-part', 'local part looks machine generated', this.riskOptions));
+    }
+
+    return signals;
+  }
+
+  /**
+   * Canonicalize an address for duplicate detection
+   * ("U.S.E.R+promo@googlemail.com" -> "user@gmail.com")
+   * @param email - The address to canonicalize
+   * @returns The canonical address, or null if the address is invalid
+   */
+  canonicalizeEmail(email: string): string | null {
+    return canonicalizeEmail(email, this.canonicalOptions);
+  }
+
+  /**
+   * Classify a domain as disposable, free webmail, privacy relay or corporate
+   * Returns "corporate" for listed disposable domains if domains haven't been loaded yet
+   * @param domain - The domain to classify (e.g. "gmail.com")
+   * @returns The category, or null for empty input
+   */
+  classifyDomain(domain: string): DomainCategory | null {
+    const normalized = domain && typeof domain === 'string' ? toAsciiDomain(domain.trim()) : '';
+    if (!normalized) {
+      return null;
+    }
+    return this.categorize(normalized, this.domainVerdict(normalized) === 'disposable');
+  }
+
+  /**
+   * Category for a domain whose disposable verdict is already known
+   */
+  private categorize(domain: string, isTempEmail: boolean): DomainCategory {
+    return isTempEmail ? 'disposable' : this.getCategoryIndex().match(domain) || 'corporate';
+  }
+
+  /**
+   * Check if an address belongs to a role or system mailbox (admin@, noreply@, info@, ...)
+   * rather than a person, regardless of the domain
+   * @param email - The address to check
+   */
+  isRoleAccount(email: string): boolean {
+    if (!email || typeof email !== 'string') {
+      return false;
+    }
+    const atIndex = email.trim().lastIndexOf('@');
+    return atIndex > 0 && this.roleAccounts.match(email.trim().slice(0, atIndex)) !== null;
+  }
+
+  /**
+   * Suggest a correction for a mistyped domain ("user@gmial.com" -> "user@gmail.com")
+   * Never suggests a disposable domain, or anything for a webmail provider or relay in the datasets
+   * @param email - The address to check
+   * @returns The suggestion, or null if the domain doesn't look like a typo
+   */
+  suggestDomain(email: string): DomainSuggestion | null {
+    const domain = email && typeof email === 'string' ? extractDomain(email) : '';
+    if (!domain || this.getCategoryIndex().match(domain)) {
+      return null;
+    }
+
+    let suggested = this.suggestionCache.get(domain);
+    if (suggested === undefined) {
+      suggested = suggestDomainFor(domain, this.suggestOptions, (candidate) => this.lookupVerdict(candidate) === 'disposable');
+      if (this.getIndexSync()) {
+        this.suggestionCache.set(domain, suggested);
+      }
+    }
+    if (!suggested) {
+      return null;
+    }
+    const localPart = email.trim().slice(0, email.trim().lastIndexOf('@'));
+    return { domain: suggested, email: `${localPart}@${suggested}` };
+  }
+
+  /**
+   * Validate email format and check if it's a temporary email
+   * @param email - The email address to validate
+   * @returns Validation result with isValid and isTempEmail flags
+   */
+  validateEmail(email: string): ValidationResult {
+    const invalid = this.validateFormat(email);
+    if (invalid) {
+      return invalid;
+    }
+
+    const domain = extractDomain(email);
+    const verdict = this.domainVerdict(domain);
+    const isTemp = this.resolveVerdict(verdict);
+    if (verdict === 'disposable') {
+      this.emitDetected(email, domain, 'list');
+    }
+
+    return this.withSuggestion(email, {
+      isValid: true,
+      isTempEmail: isTemp,
+      error: isTemp ? disposableError(verdict) : null,
+      errorCode: isTemp ? 'DISPOSABLE_EMAIL' : null,
+      canonicalEmail: this.canonicalizeEmail(email),
+      category: this.categorize(domain, isTemp),
+      isRoleAccount: this.isRoleAccount(email),
+      verdict,
+      degraded: verdict === 'unknown',
+    });
+  }
+
+  /**
+   * Check the address format
+   * @returns The failed validation result, or null if the format is valid
+   */
+  private validateFormat(email: string): ValidationResult | null {
+    if (!email || typeof email !== 'string') {
+      return {
+        isValid: false,
+        isTempEmail: false,
+        error: 'Email is required and must be a string',
+        errorCode: 'REQUIRED',
+        canonicalEmail: null,
+        category: null,
+        isRoleAccount: false,
+        verdict: null,
+        degraded: false,
+      };
+    }
+
+    // RFC 5321/5322 parsing with a specific error code per failure
+    const parsed = parseEmail(email, this.parserOptions);
+    if (!parsed.ok) {
+      return this.withSuggestion(email, {
+        isValid: false,
+        isTempEmail: false,
+        error: parsed.message,
+        errorCode: parsed.code,
+        canonicalEmail: null,
+        category: null,
+        isRoleAccount: false,
+        verdict: null,
+        degraded: false,
+      });
+    }
+    return null;
+  }
+
+  /**
+   * Add the typo suggestion to a validation result, if there is one
+   */
+  private withSuggestion(email: string, result: ValidationResult): ValidationResult {
+    const suggestion = this.suggestDomain(email);
+    if (suggestion) {
+      result.suggestion = suggestion;
+    }
+    return result;
+  }
+
+  /**
+   * Async version that ensures domains are loaded and runs the detection pipeline
+   * The result's stage says which stage produced the verdict
+   * @param email - The email address to validate
+   * @param options - Stages and timeouts for this call (defaults to the guard's pipeline)
+   */
+  async validateEmailAsync(email: string, options?: PipelineOptions): Promise<ValidationResult> {
+    const invalid = this.validateFormat(email);
+    if (invalid) {
+      return invalid;
+    }
+
+    const verdict = await this.runPipeline(email, options);
+    return this.withSuggestion(email, {
+      isValid: true,
+      isTempEmail: verdict.isTempEmail,
+      error: verdict.isTempEmail ? disposableError(verdict.verdict) : null,
+      errorCode: verdict.isTempEmail ? 'DISPOSABLE_EMAIL' : null,
+      canonicalEmail: this.canonicalizeEmail(email),
+      category: this.categorize(extractDomain(email), verdict.isTempEmail),
+      isRoleAccount: this.isRoleAccount(email),
+      verdict: verdict.verdict,
+      degraded: verdict.verdict === 'unknown',
+      stage: verdict.stage,
+      timedOutStages: verdict.timedOutStages,
+    });
+  }
+
+  /**
+   * Run the configured stages in order until one produces a verdict
+   * Stages that exceed their timeout are skipped
+   * A list stage that fails to load or times out leaves the verdict unknown unless a later stage flags the address
+   * Emits a detected event with the stage that flagged the address
+   * @param applyFailMode - Resolve unknown verdicts with failMode (otherwise isTempEmail is false for them)
+   * @throws The load error (or DomainsNotLoadedError) in throw mode when the verdict is unknown
+   */
+  private async runPipeline(email: string, options: PipelineOptions = {}, applyFailMode = true): Promise<PipelineVerdict> {
+    const stages = options.stages || this.pipeline.stages || DEFAULT_PIPELINE_STAGES;
+    const timeouts = { ...DEFAULT_STAGE_TIMEOUTS, ...this.pipeline.timeouts, ...options.timeouts };
+    const verdict: PipelineVerdict = { isTempEmail: false, verdict: 'clean', stage: null, timedOutStages: [] };
+
+    const domain = email && typeof email === 'string' ? extractDomain(email) : '';
+    if (!domain) {
+      return verdict;
+    }
+
+    let listUnavailable = false;
+    let loadError: Error | undefined;
+    for (const stage of stages) {
+      let outcome: Verdict | null | typeof TIMED_OUT;
+      try {
+        outcome = await withTimeout(this.runStage(stage, email, domain), timeouts[stage]);
+      } catch (error) {
+        if (stage !== 'list') {
+          throw error;
+        }
+        loadError = toError(error);
+        outcome = 'unknown';
+      }
+      if (outcome === TIMED_OUT) {
+        verdict.timedOutStages.push(stage);
+        listUnavailable = listUnavailable || stage === 'list';
+        continue;
+      }
+      if (outcome === 'unknown') {
+        listUnavailable = true;
+        continue;
+      }
+      if (outcome !== null) {
+        verdict.verdict = outcome;
+        verdict.stage = stage;
+        break;
+      }
+    }
+
+    if (!verdict.stage && listUnavailable) {
+      verdict.verdict = 'unknown';
+    }
+    verdict.isTempEmail = applyFailMode ? this.resolveVerdict(verdict.verdict, loadError) : verdict.verdict === 'disposable';
+
+    if (verdict.verdict === 'disposable' && verdict.stage) {
+      this.emitDetected(email, domain, verdict.stage);
+    }
+    return verdict;
+  }
+
+  /**
+   * Run a single pipeline stage
+   * @returns disposable or clean (definitely clean) to stop the pipeline,
+   * unknown if the domain list is unavailable or null to continue
+   */
+  private async runStage(stage: PipelineStage, email: string, domain: string): Promise<Verdict | null> {
+    switch (stage) {
+      case 'list': {
+        // Allow/deny rules are final, later stages can't override them
+        const override = this.matchOverride(domain);
+        if (override) {
+          return override.type === 'deny' ? 'disposable' : 'clean';
+        }
+        // Webmail providers and privacy relays are final too (not their subdomains)
+        if (this.getCategoryIndex().get(domain)) {
+          return 'clean';
+        }
+        await this.ensureDomainsLoaded();
+        const verdict = this.domainVerdict(domain);
+        return verdict === 'clean' ? null : verdict;
+      }
+      case 'mx':
+        return (await getDisposableMXMatch(domain)) ? 'disposable' : null;
+      case 'heuristics':
+        return matchDisposableKeyword(domain) ? 'disposable' : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Get hit, miss and eviction counts of the result cache, e.g. to tune its size
+   */
+  getCacheStats(): CacheStats {
+    const lookups = this.cacheHits + this.cacheMisses;
+    return {
+      hits: this.cacheHits,
+      misses: this.cacheMisses,
+      evictions: this.cacheEvictions,
+      size: this.resultCache.size,
+      hitRate: lookups > 0 ? this.cacheHits / lookups : 0,
+    };
+  }
+
+  /**
+   * Reset the result cache counters (the cached entries are kept)
+   */
+  resetCacheStats(): void {
+    this.cacheHits = 0;
+    this.cacheMisses = 0;
+    this.cacheEvictions = 0;
+  }
+
+  /**
+   * Clear the guard's domains, result caches and loader cache
+   */
+  clearCache(): void {
+    this.index = null;
+    this.clearResultCaches('clear');
+    this.loader.clear();
+  }
+
+  /**
+   * Clear the result and suggestion caches, reporting each non-empty one
+   */
+  private clearResultCaches(reason: CacheEvictEvent['reason']): void {
+    if (this.resultCache.size > 0) {
+      this.resultCache.clear();
+      this.events.emit('cache:evict', { cache: 'result', domain: null, reason });
+    }
+    if (this.suggestionCache.size > 0) {
+      this.suggestionCache.clear();
+      this.events.emit('cache:evict', { cache: 'suggestion', domain: null, reason });
+    }
+  }
+
+  /**
+   * Report a disposable address (the payload is only built when someone listens)
+   */
+  private emitDetected(email: string, domain: string, stage: PipelineStage): void {
+    if (this.events.hasListeners('detected')) {
+      const override = this.matchOverride(domain);
+      this.events.emit('detected', { email, domain, stage, override: override && override.type === 'deny' ? override : null });
+    }
+  }
+
+  /**
+   * Ensure domains are loaded (auto-initialize on first use)
+   */
+  private async ensureDomainsLoaded(signal?: AbortSignal): Promise<void> {
+    if (this.getIndexSync()) {
+      return;
+    }
+
+    const domains = await this.loader.load({ signal });
+    if (!this.index) {
+      this.index = this.indexLoaded(domains);
+    }
+  }
+
+  /**
+   * Ensure domains are loaded for a check, leaving its verdict unknown if loading fails
+   * @throws The load error in throw mode
+   */
+  private async loadForCheck(): Promise<void> {
+    try {
+      await this.ensureDomainsLoaded();
+    } catch (error) {
+      if (this.failMode === 'throw') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Find the allow/deny rule that applies to a domain (denylist wins)
+   */
+  private matchOverride(domain: string): OverrideMatch | null {
+    const denyRule = this.denyRules.match(domain);
+    if (denyRule) {
+      return { type: 'deny', rule: denyRule };
+    }
+    const allowRule = this.allowRules.match(domain);
+    if (allowRule) {
+      return { type: 'allow', rule: allowRule };
+    }
+    return null;
+  }
+
+  /**
+   * Get the webmail/relay lookup, reading the bundled datasets on first use
+   */
+  private getCategoryIndex(): CategoryIndex {
+    if (!this.categoryIndex) {
+      this.categoryIndex = new CategoryIndex(this.categoryDomains);
+    }
+    return this.categoryIndex;
+  }
+
+  /**
+   * Get the lookup index, building it from already available domains if needed
+   * Returns null when nothing has been loaded yet
+   */
+  private getIndexSync(): DomainIndex | null {
+    if (!this.index) {
+      if (this.staticDomains) {
+        this.index = buildIndex(this.staticDomains, null);
+      } else {
+        const domains = this.loader.getCached();
+        if (domains) {
+          this.index = this.indexLoaded(domains);
+        }
+      }
+    }
+    return this.index;
+  }
+
+  /**
+   * Build the lookup index for a list returned by the loader, reusing the loader's trie for it
+   */
+  private indexLoaded(domains: readonly string[]): DomainIndex {
+    const trie = this.loader.getCached() === domains ? this.loader.getTrie() : null;
+    return buildIndex(domains, this.loader.getSourceIndex(), trie);
+  }
+
+  /**
+   * Report an entry the cache dropped on its own
+   */
+  private emitEvicted(cache: CacheEvictEvent['cache'], domain: string, reason: EvictionReason): void {
+    this.events.emit('cache:evict', { cache, domain, reason });
+  }
+}
+
+/**
+ * Extract the domain part of an email as a lowercased ASCII lookup key
+ * (empty string if there is none), Unicode domains are converted to punycode
+ * Splits at the last @ since quoted local parts may contain one
+ * Uses lastIndexOf instead of split to avoid allocating an array
+ */
+function extractDomain(email: string): string {
+  const atIndex = email.lastIndexOf('@');
+  if (atIndex === -1 || atIndex === email.length - 1) {
+    return '';
+  }
+  return toAsciiDomain(email.slice(atIndex + 1).trim());
+}
+
+/**
+ * Error message for an address reported as disposable, saying when failMode decided it
+ */
+function disposableError(verdict: Verdict): string {
+  return verdict === 'unknown'
+    ? 'Domain list is unavailable, email treated as temporary'
+    : 'Email is from a temporary email service';
+}
+
+/**
+ * Create a new independent guard
+ * @param options - Guard configuration
+ */
+export function createGuard(options: EmailGuardOptions = {}): EmailGuard {
+  return new EmailGuard(options);
+}
@@ -4,241 +4,445 @@
  * Fetches domains from GitHub at runtime to keep package size small
  */
 
-import { loadDomains, getCachedDomains, isDomainsLoaded, clearCache as clearLoaderCache } from './data/loader';
-import { DomainTrie } from './utils/trie';
-import { isDisposableByDNS } from './utils/dns-detector';
+import { defaultLoader } from './data/loader';
+import { EmailGuard } from './guard';
+import type { QuorumLevel } from './data/provenance';
+import type { DomainRuleInput } from './utils/domain-rules';
+import type { PipelineOptions } from './pipeline';
+import type { RiskAssessment } from './risk';
+import type { DomainSuggestion } from './utils/suggest';
+import type { DomainCategory } from './data/categories';
+import type { CheckResult, FailMode, ValidationResult, Verdict } from './types';
+import type { GuardEventListener, GuardEventName } from './events';
+import type { Logger } from './logger';
+import type { CacheStats } from './utils/lru-cache';
+import type { LoadReport } from './data/load-report';
+import type { LoadOptions } from './data/loader';
 
 /**
- * Internal state for domains
+ * Default guard backing the module-level functions
+ * Uses the shared default loader
  */
-let TEMP_EMAIL_DOMAINS_SET: Set<string> | null = null;
-let TEMP_EMAIL_DOMAINS_TRIE: DomainTrie | null = null;
-let TEMP_EMAIL_DOMAINS_ARRAY: readonly string[] | null = null;
+const defaultGuard = new EmailGuard({ loader: defaultLoader });
 
 /**
- * Pre-compiled regex for email validation (faster than creating new regex each time)
+ * Get the guard used by the module-level functions
  */
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export function getDefaultGuard(): EmailGuard {
+  return defaultGuard;
+}
 
 /**
- * Simple LRU cache for recently checked domains (max 1000 entries)
- * Speeds up repeated lookups of the same domains
+ * Get domains array (synchronous, returns empty array if not loaded)
+ * For async version, use initialize() then getTempEmailDomains()
  */
-const DOMAIN_CACHE = new Map<string, boolean>();
-const MAX_CACHE_SIZE = 1000;
+export function getTempEmailDomains(): readonly string[] {
+  return defaultGuard.getDomains();
+}
 
 /**
- * Add to cache with LRU eviction
+ * Get domains array (async, ensures domains are loaded first)
  */
-function cacheResult(domain: string, result: boolean): void {
-  // Remove oldest entry if cache is full
-  if (DOMAIN_CACHE.size >= MAX_CACHE_SIZE) {
-    const firstKey = DOMAIN_CACHE.keys().next().value;
-    if (firstKey !== undefined) {
-      DOMAIN_CACHE.delete(firstKey);
-    }
-  }
-  DOMAIN_CACHE.set(domain, result);
+export async function getTempEmailDomainsAsync(): Promise<readonly string[]> {
+  return defaultGuard.getDomainsAsync();
 }
 
 /**
- * Initialize domains from fetched data
+ * Read-only array view that always reflects the current result of getList()
  */
-function initializeDomains(domains: readonly string[]): void {
-  TEMP_EMAIL_DOMAINS_SET = new Set(domains);
-  TEMP_EMAIL_DOMAINS_TRIE = DomainTrie.fromDomains(domains);
-  TEMP_EMAIL_DOMAINS_ARRAY = domains;
+function createLiveList(getList: () => readonly string[]): readonly string[] {
+  return new Proxy([] as string[], {
+    get: (_target, property) => {
+      const list = getList();
+      const value = Reflect.get(list, property, list);
+      // Bind methods to the current list, so they don't read the empty target
+      return typeof value === 'function' ? value.bind(list) : value;
+    },
+    has: (_target, property) => Reflect.has(getList(), property),
+    ownKeys: () => Reflect.ownKeys(getList()),
+    getOwnPropertyDescriptor: (_target, property) => Reflect.getOwnPropertyDescriptor(getList(), property),
+    set: () => false,
+    deleteProperty: () => false,
+    defineProperty: () => false,
+  });
 }
 
 /**
- * Ensure domains are loaded (auto-initialize on first use)
+ * Backward compatibility - live view of the default domains array
+ * Empty until initialize() or initializeSync() loads the list, then reflects it (and refreshes)
+ * @deprecated Use getTempEmailDomains() or getTempEmailDomainsAsync() instead
  */
-async function ensureDomainsLoaded(): Promise<void> {
-  if (isDomainsLoaded()) {
-    return;
-  }
+export const TEMP_EMAIL_DOMAINS: readonly string[] = createLiveList(getTempEmailDomains);
 
-  const domains = await loadDomains();
-  if (!TEMP_EMAIL_DOMAINS_SET) {
-    initializeDomains(domains);
-  }
+/**
+ * Get the upstream sources that list a domain (e.g. ["primary", "detector"])
+ * Useful for auditing false positives back to a specific upstream list
+ * Returns an empty array if the domain isn't listed or provenance is unavailable
+ */
+export function getDomainSources(domain: string): string[] {
+  return defaultGuard.getDomainSources(domain);
 }
 
 /**
- * Get domains array (synchronous, returns empty array if not loaded)
- * For async version, use initialize() then getTempEmailDomains()
+ * Report how many domains each source quorum level keeps
+ * (e.g. { minSources: 2, domains: 61234 } = domains listed by at least 2 sources)
+ * Returns an empty array if provenance is unavailable
  */
-export function getTempEmailDomains(): readonly string[] {
-  return TEMP_EMAIL_DOMAINS_ARRAY || [];
+export function getQuorumReport(): QuorumLevel[] {
+  return defaultGuard.getQuorumReport();
 }
 
 /**
- * Get domains array (async, ensures domains are loaded first)
+ * Replace the default guard's allowlist (domains never treated as disposable)
+ * Takes effect immediately without reloading the domain list
+ * @param input - Array of entries ("example.com", "*.corp-relay.example") or path to a rules file
  */
-export async function getTempEmailDomainsAsync(): Promise<readonly string[]> {
-  await ensureDomainsLoaded();
-  return TEMP_EMAIL_DOMAINS_ARRAY || [];
+export function setAllowlist(input: DomainRuleInput): void {
+  defaultGuard.setAllowlist(input);
 }
 
 /**
- * Backward compatibility - returns domains array
- * Note: Will be empty until initialize() is called
- * @deprecated Use getTempEmailDomains() or getTempEmailDomainsAsync() instead
+ * Replace the default guard's denylist (domains always treated as disposable)
+ * Takes effect immediately without reloading the domain list
+ * @param input - Array of entries ("example.com", "*.corp-relay.example") or path to a rules file
+ */
+export function setDenylist(input: DomainRuleInput): void {
+  defaultGuard.setDenylist(input);
+}
+
+/**
+ * Reload the default domain list now and swap it in atomically
+ * Keeps the current list if loading fails
+ * @returns True if the list was replaced
+ */
+export async function refreshDomains(): Promise<boolean> {
+  return defaultGuard.refresh();
+}
+
+/**
+ * Reload the default domain list in the background (e.g. to pick up daily list updates
+ * in a long-running server)
+ * @param intervalMs - Refresh interval in ms, or null to stop refreshing
  */
-export const TEMP_EMAIL_DOMAINS = getTempEmailDomains();
+export function setRefreshInterval(intervalMs: number | null): void {
+  defaultGuard.setRefreshInterval(intervalMs);
+}
+
+/**
+ * Replace the logger of the default loader and guard
+ * Pass silentLogger to drop all messages
+ * @param logger - Object with debug/info/warn/error methods (e.g. a pino or winston logger)
+ */
+export function setLogger(logger: Logger): void {
+  defaultLoader.setLogger(logger);
+}
+
+/**
+ * Subscribe to a lifecycle event of the default guard and loader
+ * (load:start, load:source-failed, load:complete, load:failed, refresh, cache:evict, detected)
+ * @param event - Event name
+ * @param listener - Called with the event payload
+ */
+export function on<K extends GuardEventName>(event: K, listener: GuardEventListener<K>): void {
+  defaultGuard.on(event, listener);
+}
+
+/**
+ * Subscribe to the next occurrence of a lifecycle event of the default guard and loader
+ */
+export function once<K extends GuardEventName>(event: K, listener: GuardEventListener<K>): void {
+  defaultGuard.once(event, listener);
+}
+
+/**
+ * Unsubscribe from a lifecycle event of the default guard and loader
+ */
+export function off<K extends GuardEventName>(event: K, listener: GuardEventListener<K>): void {
+  defaultGuard.off(event, listener);
+}
+
+/**
+ * Get the report of the last default list load: origin, per-source HTTP status,
+ * domain counts, durations and errors (null if nothing has been loaded yet)
+ */
+export function getLoadReport(): LoadReport | null {
+  return defaultGuard.getLoadReport();
+}
+
+/**
+ * Get hit, miss and eviction counts of the default guard's result cache
+ */
+export function getCacheStats(): CacheStats {
+  return defaultGuard.getCacheStats();
+}
+
+/**
+ * Reset the default guard's result cache counters
+ */
+export function resetCacheStats(): void {
+  defaultGuard.resetCacheStats();
+}
 
 /**
  * Clear all caches (useful for testing)
  */
 export function clearCache(): void {
-  TEMP_EMAIL_DOMAINS_SET = null;
-  TEMP_EMAIL_DOMAINS_TRIE = null;
-  TEMP_EMAIL_DOMAINS_ARRAY = null;
-  DOMAIN_CACHE.clear();
-  clearLoaderCache();
+  defaultGuard.clearCache();
 }
 
 // Re-export DNS detector functions
-export { isDisposableByDNS, clearDNSCache } from './utils/dns-detector';
+export { isDisposableByDNS, getDisposableMXMatch, clearDNSCache } from './utils/dns-detector';
+
+// Instance-based API
+export { EmailGuard, createGuard } from './guard';
+export type { EmailGuardOptions } from './guard';
+export { DomainLoader } from './data/loader';
+export type { DomainLoaderOptions, LoadOptions } from './data/loader';
+export type { FetchOptions } from './data/fetch';
+export type { DiskCacheOptions, SourceCacheStatus } from './data/disk-cache';
+export { BUILTIN_NEVER_BLOCK, createManifest, signManifest, verifyManifestSignature } from './data/integrity';
+export type { DataManifest, IntegrityOptions, ManifestEntry, RejectedDomain } from './data/integrity';
+export { SNAPSHOT_VERSION, encodeSnapshot } from './data/snapshot';
+export type { SnapshotOptions } from './data/snapshot';
+export type { QuorumOptions } from './data/quorum';
+export type { CoverageOptions, LoadOrigin, LoadReport, SourceLoadReport } from './data/load-report';
+export { DomainLoadError, DomainsNotLoadedError } from './errors';
+export type { QuorumLevel } from './data/provenance';
+export { DOMAIN_SOURCES } from './data/sources';
+export { CATEGORY_DATA_FILES } from './data/categories';
+export type { DomainCategory, ProviderCategory, CategoryDomains } from './data/categories';
+export type { DomainProvider, DomainSource, SourceFormat, SourceInput, SourceOptions } from './data/sources';
+export type { ValidationResult, ValidationErrorCode, CheckResult, MatchType, OverrideMatch, Verdict, FailMode } from './types';
+export { parseEmail } from './utils/email-parser';
+export type { EmailErrorCode, EmailParserOptions, ParsedEmail, ParseEmailResult } from './utils/email-parser';
+export { DEFAULT_PROVIDER_RULES } from './utils/canonicalize';
+export { DEFAULT_SUGGEST_DOMAINS, DEFAULT_SUGGEST_TLDS, DEFAULT_TLD_TYPOS } from './utils/suggest';
+export { ROLE_ACCOUNTS_BY_LOCALE } from './utils/role-accounts';
+export type { RoleAccountOptions } from './utils/role-accounts';
+export type { DomainSuggestion, SuggestOptions } from './utils/suggest';
+export type { CanonicalizeOptions, ProviderRule, DefaultProviderRule } from './utils/canonicalize';
+export { toAsciiDomain, toUnicodeDomain, detectConfusable } from './utils/idn';
+export type { PipelineOptions, PipelineStage } from './pipeline';
+export type {
+  RiskAssessment,
+  RiskBand,
+  RiskAction,
+  RiskSignal,
+  RiskSignalName,
+  RiskOptions,
+  RiskThresholds,
+} from './risk';
+export { DomainRules } from './utils/domain-rules';
+export type { DomainRuleInput } from './utils/domain-rules';
+export { LRUCache } from './utils/lru-cache';
+export type { CacheOptions, CacheStats, ResultCache, LRUCacheOptions, EvictionReason } from './utils/lru-cache';
+export { consoleLogger, silentLogger } from './logger';
+export type { Logger, LoggerOptions } from './logger';
+export { GuardEvents } from './events';
+export type {
+  GuardEventMap,
+  GuardEventName,
+  GuardEventListener,
+  LoadStartEvent,
+  SourceFailedEvent,
+  LoadCompleteEvent,
+  LoadFailedEvent,
+  RefreshEvent,
+  CacheEvictEvent,
+  DetectedEvent,
+} from './events';
 
 /**
  * Initialize the package (loads domains from GitHub)
  * Call this before using isTempEmail for best performance
+ * @param options - Abort signal to stop waiting (e.g. AbortSignal.timeout(5000))
  * @returns Promise that resolves when domains are loaded
  */
-export async function initialize(): Promise<void> {
-  await ensureDomainsLoaded();
+export async function initialize(options?: LoadOptions): Promise<void> {
+  await defaultGuard.initialize(options);
+}
+
+/**
+ * Initialize synchronously from the bundled data/all-domains.json (no network)
+ * For CLIs, config validators and serverless handlers that can't await initialize()
+ * @throws DomainLoadError if the bundled file is missing or fails its integrity check
+ */
+export function initializeSync(): void {
+  defaultGuard.initializeSync();
 }
 
 /**
- * Validation result interface
+ * Make synchronous checks throw DomainsNotLoadedError while the domain list isn't loaded,
+ * instead of reporting addresses as not disposable
+ * @param strict - True to turn strict mode on
  */
-export interface ValidationResult {
-  isValid: boolean;
-  isTempEmail: boolean;
-  error: string | null;
+export function setStrict(strict: boolean): void {
+  defaultGuard.setStrict(strict);
+}
+
+/**
+ * Choose how checks answer while the domain list is unavailable:
+ * open (not disposable, the default), closed (disposable) or throw
+ * @param mode - The fail mode
+ */
+export function setFailMode(mode: FailMode): void {
+  defaultGuard.setFailMode(mode);
 }
 
 /**
  * Check if an email address is from a temporary email service
  * Uses optimized Trie structure for fast domain and subdomain matching
  * Optimized for millions of domains - O(m) where m is domain length
- * 
+ *
  * Note: Domains are auto-loaded on first use. For best performance, call initialize() first.
- * 
+ *
  * @param email - The email address to check
  * @returns True if the email is from a temporary email service
  */
 export function isTempEmail(email: string): boolean {
-  // Fast early exit for invalid input
-  if (!email || typeof email !== 'string') {
-    return false;
-  }
-
-  // Auto-initialize if not loaded (synchronous check, will return false if not loaded)
-  if (!TEMP_EMAIL_DOMAINS_SET || !TEMP_EMAIL_DOMAINS_TRIE) {
-    const cached = getCachedDomains();
-    if (cached) {
-      initializeDomains(cached);
-    } else {
-      return false;
-    }
-  }
-
-  // Optimized domain extraction using indexOf (faster than split)
-  const atIndex = email.indexOf('@');
-  if (atIndex === -1 || atIndex === email.length - 1) {
-    return false;
-  }
-
-  // Extract domain directly (avoid creating array with split)
-  let domain = email.slice(atIndex + 1).toLowerCase().trim();
-  
-  // Early exit for empty domain
-  if (!domain) {
-    return false;
-  }
-
-  // Check cache first (O(1) lookup for repeated domains)
-  const cachedResult = DOMAIN_CACHE.get(domain);
-  if (cachedResult !== undefined) {
-    return cachedResult;
-  }
-
-  // At this point, we know they're initialized
-  const domainsSet = TEMP_EMAIL_DOMAINS_SET!;
-  const domainsTrie = TEMP_EMAIL_DOMAINS_TRIE!;
-
-  let result = false;
-
-  // Fast O(1) exact match lookup using Set (fastest for exact matches)
-  if (domainsSet.has(domain)) {
-    result = true;
-  } else {
-    // Use Trie for efficient subdomain matching
-    // Optimized Trie handles subdomain checking in O(m) time where m is domain length
-    result = domainsTrie.hasDomain(domain);
-  }
-
-  // Cache the result for future lookups
-  cacheResult(domain, result);
-  return result;
+  return defaultGuard.isTempEmail(email);
 }
 
 /**
- * Async version that ensures domains are loaded
+ * Async version that ensures domains are loaded and runs the detection pipeline:
+ * list lookup, then DNS MX pattern check, then optional name heuristics
  * @param email - The email address to check
+ * @param options - Pipeline stages and per-stage timeouts
  * @returns Promise that resolves to true if the email is from a temporary email service
  */
-export async function isTempEmailAsync(email: string): Promise<boolean> {
-  await ensureDomainsLoaded();
-  return isTempEmail(email);
+export async function isTempEmailAsync(email: string, options?: PipelineOptions): Promise<boolean> {
+  return defaultGuard.isTempEmailAsync(email, options);
+}
+
+/**
+ * Get the tri-state verdict for an email: disposable, clean or unknown
+ * Unknown means no rule matched and the domain list isn't loaded, whatever the fail mode
+ * @param email - The email address to check
+ * @returns The verdict, or null if no domain could be extracted
+ */
+export function getVerdict(email: string): Verdict | null {
+  return defaultGuard.getVerdict(email);
+}
+
+/**
+ * Async version that ensures domains are loaded and runs the detection pipeline
+ * Resolves to unknown if the domain list can't be loaded
+ * @param email - The email address to check
+ * @param options - Pipeline stages and per-stage timeouts
+ */
+export async function getVerdictAsync(email: string, options?: PipelineOptions): Promise<Verdict | null> {
+  return defaultGuard.getVerdictAsync(email, options);
+}
+
+/**
+ * Explain why an email is (or isn't) considered temporary
+ * Reports the normalized domain, whether it was an exact or subdomain match,
+ * the listed entry that matched and the upstream sources that contained it
+ *
+ * Note: The verdict is unknown if domains haven't been loaded yet. Call initialize() first or use checkEmailAsync().
+ *
+ * @param email - The email address to check
+ * @returns Detailed match result
+ */
+export function checkEmail(email: string): CheckResult {
+  return defaultGuard.checkEmail(email);
+}
+
+/**
+ * Async version that ensures domains are loaded
+ * @param email - The email address to check
+ * @returns Promise that resolves to the detailed match result
+ */
+export async function checkEmailAsync(email: string): Promise<CheckResult> {
+  return defaultGuard.checkEmailAsync(email);
+}
+
+/**
+ * Score how likely an email is to be disposable
+ * Returns a 0-100 score, a band (low/medium/high), a suggested action (allow/verify/block)
+ * and the contributing signals with their weights
+ *
+ * Note: Uses list, rule, TLD and local-part signals. Use assessEmailAsync() to include the DNS MX signal.
+ *
+ * @param email - The email address to assess
+ */
+export function assessEmail(email: string): RiskAssessment {
+  return defaultGuard.assessEmail(email);
+}
+
+/**
+ * Async version that ensures domains are loaded and includes the DNS MX pattern signal
+ * @param email - The email address to assess
+ */
+export async function assessEmailAsync(email: string): Promise<RiskAssessment> {
+  return defaultGuard.assessEmailAsync(email);
+}
+
+/**
+ * Canonicalize an address for duplicate detection
+ * Strips sub-address tags, removes Gmail dots and maps domain aliases
+ * ("U.S.E.R+promo@googlemail.com" -> "user@gmail.com")
+ * @param email - The address to canonicalize
+ * @returns The canonical address, or null if the address is invalid
+ */
+export function canonicalizeEmail(email: string): string | null {
+  return defaultGuard.canonicalizeEmail(email);
+}
+
+/**
+ * Classify a domain: disposable (block), webmail (free provider), relay (privacy relay) or corporate
+ * Webmail and relay domains come from the bundled data/webmail-domains.json and data/relay-domains.json
+ *
+ * Note: Disposable domains are classified as corporate until domains are loaded. Call initialize() first.
+ *
+ * @param domain - The domain to classify (e.g. "gmail.com")
+ * @returns The category, or null for empty input
+ */
+export function classifyDomain(domain: string): DomainCategory | null {
+  return defaultGuard.classifyDomain(domain);
+}
+
+/**
+ * Check if an address belongs to a role or system mailbox (admin@, postmaster@, noreply@, info@, ...)
+ * Useful to filter trial signups even on legitimate domains
+ * @param email - The address to check
+ */
+export function isRoleAccount(email: string): boolean {
+  return defaultGuard.isRoleAccount(email);
+}
+
+/**
+ * Suggest a correction for a mistyped domain ("user@gmial.com" -> "user@gmail.com")
+ * Uses edit distance against popular providers and TLDs, never suggests a disposable domain
+ *
+ * Note: Disposable domains are only excluded once domains are loaded. Call initialize() first.
+ *
+ * @param email - The address to check
+ * @returns The suggested domain and address, or null if the domain doesn't look like a typo
+ */
+export function suggestDomain(email: string): DomainSuggestion | null {
+  return defaultGuard.suggestDomain(email);
 }
 
 /**
  * Validate email format and check if it's a temporary email
- * 
+ *
  * Note: Domains are auto-loaded on first use. For best performance, call initialize() first.
- * 
+ *
  * @param email - The email address to validate
  * @returns Validation result with isValid and isTempEmail flags
  */
 export function validateEmail(email: string): ValidationResult {
-  if (!email || typeof email !== 'string') {
-    return {
-      isValid: false,
-      isTempEmail: false,
-      error: 'Email is required and must be a string',
-    };
-  }
-
-  // Use pre-compiled regex for faster validation
-  const isValidFormat = EMAIL_REGEX.test(email);
-
-  if (!isValidFormat) {
-    return {
-      isValid: false,
-      isTempEmail: false,
-      error: 'Invalid email format',
-    };
-  }
-
-  const isTemp = isTempEmail(email);
-
-  return {
-    isValid: true,
-    isTempEmail: isTemp,
-    error: isTemp ? 'Email is from a temporary email service' : null,
-  };
+  return defaultGuard.validateEmail(email);
 }
 
 /**
- * Async version that ensures domains are loaded
+ * Async version that ensures domains are loaded and runs the detection pipeline
+ * The result's stage says which stage produced the verdict
  * @param email - The email address to validate
+ * @param options - Pipeline stages and per-stage timeouts
  * @returns Promise that resolves to validation result
  */
-export async function validateEmailAsync(email: string): Promise<ValidationResult> {
-  await ensureDomainsLoaded();
-  return validateEmail(email);
+export async function validateEmailAsync(email: string, options?: PipelineOptions): Promise<ValidationResult> {
+  return defaultGuard.validateEmailAsync(email, options);
 }
-
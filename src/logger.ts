@@ -0,0 +1,56 @@
+/**
+ * Logging
+ * Loader and guard messages go through a Logger, so they can be routed to
+ * pino, winston or any object with debug/info/warn/error methods, or silenced
+ */
+
+/**
+ * Minimal logger interface (pino and winston loggers are compatible)
+ */
+export interface Logger {
+  debug(message: string, ...meta: unknown[]): void;
+  info(message: string, ...meta: unknown[]): void;
+  warn(message: string, ...meta: unknown[]): void;
+  error(message: string, ...meta: unknown[]): void;
+}
+
+export interface LoggerOptions {
+  /**
+   * Where to send log messages (default: the console)
+   */
+  logger?: Logger;
+  /**
+   * Drop all log messages (takes precedence over logger)
+   */
+  silent?: boolean;
+}
+
+/**
+ * Logs to the console (info messages go to console.log)
+ */
+export const consoleLogger: Logger = {
+  debug: (message, ...meta) => console.debug(message, ...meta),
+  info: (message, ...meta) => console.log(message, ...meta),
+  warn: (message, ...meta) => console.warn(message, ...meta),
+  error: (message, ...meta) => console.error(message, ...meta),
+};
+
+/**
+ * Drops all messages
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Pick the logger for a set of options
+ */
+export function resolveLogger(options: LoggerOptions = {}): Logger {
+  if (options.silent) {
+    return silentLogger;
+  }
+  return options.logger || consoleLogger;
+}
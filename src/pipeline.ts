@@ -0,0 +1,70 @@
+/**
+ * Async detection pipeline configuration
+ * Stages run in order until one of them produces a verdict:
+ * 1. list - allow/deny rules and the loaded domain list
+ * 2. mx - DNS MX records matched against known disposable mail servers
+ * 3. heuristics - disposable keywords in the domain name (opt-in)
+ */
+
+import type { Verdict } from './types';
+
+export type PipelineStage = 'list' | 'mx' | 'heuristics';
+
+export interface PipelineOptions {
+  /**
+   * Stages to run, in order (defaults to ['list', 'mx'])
+   */
+  stages?: readonly PipelineStage[];
+  /**
+   * Per-stage timeout in milliseconds
+   * A stage that times out is skipped and the pipeline moves on
+   */
+  timeouts?: Partial<Record<PipelineStage, number>>;
+}
+
+/**
+ * Stages run when none are configured
+ */
+export const DEFAULT_PIPELINE_STAGES: readonly PipelineStage[] = ['list', 'mx'];
+
+/**
+ * Default per-stage timeouts (ms)
+ * The list stage includes loading the domain list, so it gets the most time
+ */
+export const DEFAULT_STAGE_TIMEOUTS: Readonly<Record<PipelineStage, number>> = {
+  list: 30000,
+  mx: 5000,
+  heuristics: 1000,
+};
+
+/**
+ * Outcome of the pipeline
+ */
+export interface PipelineVerdict {
+  /** Verdict with failMode applied */
+  isTempEmail: boolean;
+  /** Tri-state verdict, unknown if the list stage failed or timed out and no other stage flagged the address */
+  verdict: Verdict;
+  /** Stage that produced the verdict, null if no stage flagged the address */
+  stage: PipelineStage | null;
+  /** Stages skipped because they exceeded their timeout */
+  timedOutStages: PipelineStage[];
+}
+
+/**
+ * Marker resolved by withTimeout when the timeout wins
+ */
+export const TIMED_OUT = Symbol('timed out');
+
+/**
+ * Race a promise against a timeout
+ * @returns The promise's value, or TIMED_OUT
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | typeof TIMED_OUT> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<typeof TIMED_OUT>((resolve) => {
+    timer = setTimeout(() => resolve(TIMED_OUT), ms);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
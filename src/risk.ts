@@ -0,0 +1,160 @@
+/**
+ * Risk scoring
+ * Combines detection signals into a 0-100 score with a band and a suggested action,
+ * so each product can pick its own cut-offs for block / step-up verification / allow
+ */
+
+export type RiskBand = 'low' | 'medium' | 'high';
+
+/**
+ * Suggested action per band: low = allow, medium = verify, high = block
+ */
+export type RiskAction = 'allow' | 'verify' | 'block';
+
+export type RiskSignalName =
+  | 'denylisted'
+  | 'allowlisted'
+  | 'list-hit'
+  | 'subdomain-match'
+  | 'source-agreement'
+  | 'mx-pattern'
+  | 'risky-tld'
+  | 'random-local-part'
+  | 'confusable-domain';
+
+export interface RiskSignal {
+  name: RiskSignalName;
+  weight: number;
+  /** Human readable explanation (e.g. "listed by 4 sources") */
+  detail: string;
+}
+
+export interface RiskAssessment {
+  /** 0 (no risk) to 100 (certainly disposable) */
+  score: number;
+  band: RiskBand;
+  action: RiskAction;
+  signals: RiskSignal[];
+}
+
+/**
+ * Minimum score for each band (scores below medium are low)
+ */
+export interface RiskThresholds {
+  medium: number;
+  high: number;
+}
+
+export interface RiskOptions {
+  thresholds?: Partial<RiskThresholds>;
+  /** Override the weight of individual signals */
+  weights?: Partial<Record<RiskSignalName, number>>;
+  /** TLDs considered risky (without the leading dot) */
+  riskyTlds?: readonly string[];
+}
+
+export const DEFAULT_RISK_THRESHOLDS: Readonly<RiskThresholds> = {
+  medium: 30,
+  high: 60,
+};
+
+/**
+ * Default signal weights
+ * source-agreement is per additional agreeing source (capped at 4 extra sources)
+ * allowlisted cancels every other signal
+ */
+export const DEFAULT_RISK_WEIGHTS: Readonly<Record<RiskSignalName, number>> = {
+  'denylisted': 100,
+  'allowlisted': -100,
+  'list-hit': 60,
+  'subdomain-match': 45,
+  'source-agreement': 5,
+  'mx-pattern': 50,
+  'risky-tld': 15,
+  'random-local-part': 15,
+  'confusable-domain': 40,
+};
+
+/**
+ * TLDs heavily used by free/throwaway domain registrations
+ */
+export const DEFAULT_RISKY_TLDS: readonly string[] = [
+  'tk', 'ml', 'ga', 'cf', 'gq', 'xyz', 'top', 'click', 'icu', 'buzz', 'cyou', 'rest', 'monster', 'work',
+];
+
+/**
+ * Max number of extra sources counted by the source-agreement signal
+ */
+const MAX_AGREEING_SOURCES = 4;
+
+/**
+ * Check if the local part looks machine generated (e.g. "x7kq9z2mw", "qwrtzplk")
+ * Looks for letters and digits interleaved and long consonant runs
+ * ("john1985smith" is not flagged)
+ */
+export function looksRandom(localPart: string): boolean {
+  // Ignore plus tags ("user+tag")
+  const local = localPart.toLowerCase().split('+')[0].replace(/[._-]/g, '');
+  if (local.length < 8) {
+    return false;
+  }
+
+  // Letter/digit switches: "x7kq9z2mw" has 6, "john1985smith" has 2
+  let switches = 0;
+  for (let i = 1; i < local.length; i++) {
+    if (/[0-9]/.test(local[i]) !== /[0-9]/.test(local[i - 1])) {
+      switches++;
+    }
+  }
+  if (switches >= 4) {
+    return true;
+  }
+
+  // Five or more consonants in a row rarely happen in names
+  return /[bcdfghjklmnpqrstvwxz]{5,}/.test(local);
+}
+
+/**
+ * Create a signal with its configured weight
+ */
+export function createSignal(
+  name: RiskSignalName,
+  detail: string,
+  options: RiskOptions = {},
+  multiplier = 1
+): RiskSignal {
+  const weight = options.weights?.[name] ?? DEFAULT_RISK_WEIGHTS[name];
+  return { name, weight: weight * multiplier, detail };
+}
+
+/**
+ * Source agreement signal for a list hit (null if only one or an unknown number of sources agree)
+ */
+export function sourceAgreementSignal(sourceCount: number, options: RiskOptions = {}): RiskSignal | null {
+  if (sourceCount < 2) {
+    return null;
+  }
+  const extraSources = Math.min(sourceCount - 1, MAX_AGREEING_SOURCES);
+  return createSignal('source-agreement', `listed by ${sourceCount} sources`, options, extraSources);
+}
+
+/**
+ * Turn signals into a score, band and action
+ */
+export function scoreSignals(signals: RiskSignal[], options: RiskOptions = {}): RiskAssessment {
+  const thresholds = { ...DEFAULT_RISK_THRESHOLDS, ...options.thresholds };
+  const total = signals.reduce((sum, signal) => sum + signal.weight, 0);
+  const score = Math.max(0, Math.min(100, Math.round(total)));
+
+  let band: RiskBand = 'low';
+  let action: RiskAction = 'allow';
+  if (score >= thresholds.high) {
+    band = 'high';
+    action = 'block';
+  } else if (score >= thresholds.medium) {
+    band = 'medium';
+    action = 'verify';
+  }
+
+  return { score, band, action, signals };
+}
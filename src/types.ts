@@ -0,0 +1,103 @@
+/**
+ * Shared types for temp-email-guard
+ */
+
+import type { PipelineStage } from './pipeline';
+import type { EmailErrorCode } from './utils/email-parser';
+import type { DomainSuggestion } from './utils/suggest';
+import type { DomainCategory } from './data/categories';
+
+/**
+ * Machine-readable reason a validation failed
+ * - REQUIRED: input missing or not a string
+ * - DISPOSABLE_EMAIL: well-formed, but from a temporary email service
+ * - any EmailErrorCode: the address is malformed
+ */
+export type ValidationErrorCode = EmailErrorCode | 'REQUIRED' | 'DISPOSABLE_EMAIL';
+
+/**
+ * Tri-state disposable verdict
+ * - disposable: flagged by a rule, the domain list or a pipeline stage
+ * - clean: checked against the loaded domain list and not flagged
+ * - unknown: the domain list wasn't available (not loaded yet, failed or timed out)
+ */
+export type Verdict = 'disposable' | 'clean' | 'unknown';
+
+/**
+ * How boolean checks answer an unknown verdict
+ * - open: not disposable (default)
+ * - closed: disposable
+ * - throw: throw DomainsNotLoadedError (async checks reject with the load error, if there was one)
+ */
+export type FailMode = 'open' | 'closed' | 'throw';
+
+/**
+ * Validation result interface
+ */
+export interface ValidationResult {
+  isValid: boolean;
+  isTempEmail: boolean;
+  error: string | null;
+  errorCode: ValidationErrorCode | null;
+  /**
+   * Canonical address for duplicate detection ("user+tag@googlemail.com" -> "user@gmail.com")
+   * null if the address is invalid
+   */
+  canonicalEmail: string | null;
+  /** Domain category (disposable, webmail, relay or corporate), null if the address is invalid */
+  category: DomainCategory | null;
+  /** Whether the local part is a role or system mailbox (admin@, noreply@, info@, ...) */
+  isRoleAccount: boolean;
+  /** Tri-state verdict before failMode was applied, null if the address is invalid */
+  verdict: Verdict | null;
+  /** True when the domain list was unavailable, so isTempEmail comes from failMode */
+  degraded: boolean;
+  /** Likely intended domain when the domain looks like a typo (e.g. "gmial.com" -> "gmail.com") */
+  suggestion?: DomainSuggestion;
+  /**
+   * Pipeline stage that produced the verdict (async validation only)
+   * null if no stage flagged the address
+   */
+  stage?: PipelineStage | null;
+  /** Pipeline stages skipped because they timed out (async validation only) */
+  timedOutStages?: PipelineStage[];
+}
+
+/**
+ * How a domain matched the disposable list
+ * - exact: the domain itself is listed (Set lookup)
+ * - subdomain: a parent domain is listed (DomainTrie suffix match)
+ */
+export type MatchType = 'exact' | 'subdomain';
+
+/**
+ * Allowlist or denylist rule that decided a verdict
+ */
+export interface OverrideMatch {
+  type: 'allow' | 'deny';
+  /** The rule entry that matched (e.g. "*.corp-relay.example") */
+  rule: string;
+}
+
+/**
+ * Detailed verdict explaining why an address was (or wasn't) flagged
+ */
+export interface CheckResult {
+  /** The email that was checked */
+  email: string;
+  /** Normalized (lowercased, trimmed, punycode) domain, null if none could be extracted */
+  domain: string | null;
+  isTempEmail: boolean;
+  /** Which rule matched, null if not flagged */
+  matchType: MatchType | null;
+  /** The listed entry that matched (e.g. "tempmail.com" for "a.b.tempmail.com") */
+  matchedEntry: string | null;
+  /** Upstream sources that contained the matched entry (empty if unknown) */
+  sources: string[];
+  /** Allowlist/denylist rule that overrode the list lookup, if any */
+  override: OverrideMatch | null;
+  /** Domain category (disposable, webmail, relay or corporate), null if no domain could be extracted */
+  category: DomainCategory | null;
+  /** Tri-state verdict before failMode was applied, null if no domain could be extracted */
+  verdict: Verdict | null;
+}
@@ -0,0 +1,107 @@
+/**
+ * Address canonicalization
+ * Maps aliases of the same mailbox ("U.S.E.R+promo@googlemail.com") to one
+ * canonical address ("user@gmail.com") that can be used as a dedup key
+ */
+
+import { parseEmail } from './email-parser';
+
+/**
+ * How a provider treats local parts and domain aliases
+ */
+export interface ProviderRule {
+  /** Domains served by the provider, the first one is the canonical domain */
+  domains: readonly string[];
+  /** Remove dots from the local part (Gmail ignores them) */
+  stripDots?: boolean;
+  /** Character starting a sub-address tag ("+" for user+tag), null to keep tags */
+  tagSeparator?: string | null;
+  /** Lowercase the local part (default: true) */
+  lowercase?: boolean;
+}
+
+/**
+ * Rule applied to domains without a provider rule
+ */
+export type DefaultProviderRule = Omit<ProviderRule, 'domains'>;
+
+export interface CanonicalizeOptions {
+  /**
+   * Extra provider rules, checked before the built-in ones
+   * (a rule listing a built-in domain replaces its built-in rule)
+   */
+  providers?: readonly ProviderRule[];
+  /**
+   * Rule for domains no provider rule covers
+   * Default: strip "+" tags and lowercase
+   */
+  defaultRule?: DefaultProviderRule;
+}
+
+/**
+ * Built-in rules for major providers
+ */
+export const DEFAULT_PROVIDER_RULES: readonly ProviderRule[] = [
+  { domains: ['gmail.com', 'googlemail.com'], stripDots: true, tagSeparator: '+' },
+  { domains: ['outlook.com'], tagSeparator: '+' },
+  { domains: ['hotmail.com'], tagSeparator: '+' },
+  { domains: ['live.com'], tagSeparator: '+' },
+  { domains: ['yahoo.com'], tagSeparator: '-' },
+  { domains: ['icloud.com', 'me.com', 'mac.com'], tagSeparator: '+' },
+  { domains: ['proton.me', 'protonmail.com', 'protonmail.ch', 'pm.me'], tagSeparator: '+' },
+  { domains: ['fastmail.com', 'fastmail.fm'], tagSeparator: '+' },
+  { domains: ['yandex.ru', 'yandex.com', 'ya.ru', 'yandex.by', 'yandex.kz', 'yandex.ua'], tagSeparator: '+' },
+];
+
+export const DEFAULT_CANONICAL_RULE: Readonly<DefaultProviderRule> = {
+  tagSeparator: '+',
+};
+
+/**
+ * Find the provider rule for a domain
+ */
+function findProviderRule(domain: string, options: CanonicalizeOptions): ProviderRule | null {
+  const custom = options.providers?.find((rule) => rule.domains.includes(domain));
+  return custom || DEFAULT_PROVIDER_RULES.find((rule) => rule.domains.includes(domain)) || null;
+}
+
+/**
+ * Canonicalize an email address for duplicate detection
+ * Quoted local parts are kept as written
+ * @param email - The address to canonicalize
+ * @param options - Provider rules
+ * @returns The canonical address, or null if the address is invalid
+ */
+export function canonicalizeEmail(email: string, options: CanonicalizeOptions = {}): string | null {
+  if (!email || typeof email !== 'string') {
+    return null;
+  }
+
+  const parsed = parseEmail(email.trim(), { allowDomainLiterals: true });
+  if (!parsed.ok) {
+    return null;
+  }
+
+  const { localPart, asciiDomain, isQuoted } = parsed.email;
+  if (isQuoted) {
+    return `${localPart}@${asciiDomain}`;
+  }
+
+  const provider = findProviderRule(asciiDomain, options);
+  const rule = provider || options.defaultRule || DEFAULT_CANONICAL_RULE;
+
+  let local = rule.lowercase === false ? localPart : localPart.toLowerCase();
+  if (rule.tagSeparator) {
+    const tagIndex = local.indexOf(rule.tagSeparator);
+    // Keep the separator if it starts the local part ("+admin")
+    if (tagIndex > 0) {
+      local = local.slice(0, tagIndex);
+    }
+  }
+  if (rule.stripDots) {
+    local = local.replace(/\./g, '');
+  }
+
+  const domain = provider ? provider.domains[0] : asciiDomain;
+  return `${local}@${domain}`;
+}
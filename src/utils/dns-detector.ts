@@ -77,14 +77,23 @@ async function getMXRecords(domain: string): Promise<string[] | null> {
 }
 
 /**
- * Check if MX records match disposable email patterns
+ * Find the MX host that matches a disposable pattern
+ * isDisposableByDNS uses the same match, this also reports which MX host matched
+ *
+ * @param domain - The domain to check
+ * @returns Promise that resolves to the matching MX host, or null
  */
-function matchesDisposablePattern(mxHosts: string[]): boolean {
-  const mxString = mxHosts.join(' ').toLowerCase();
-  
-  return DISPOSABLE_MX_PATTERNS.some((pattern) => {
-    return mxHosts.some((mx) => mx.includes(pattern));
-  });
+export async function getDisposableMXMatch(domain: string): Promise<string | null> {
+  if (!domain || !domain.includes('.')) {
+    return null;
+  }
+
+  const mxHosts = await getMXRecords(domain);
+  if (!mxHosts || mxHosts.length === 0) {
+    return null;
+  }
+
+  return mxHosts.find((mx) => DISPOSABLE_MX_PATTERNS.some((pattern) => mx.includes(pattern))) || null;
 }
 
 /**
@@ -95,20 +104,9 @@ function matchesDisposablePattern(mxHosts: string[]): boolean {
  * @returns Promise that resolves to true if MX records suggest disposable email
  */
 export async function isDisposableByDNS(domain: string): Promise<boolean> {
-  if (!domain || !domain.includes('.')) {
-    return false;
-  }
-
   try {
-    const mxHosts = await getMXRecords(domain);
-    
-    if (!mxHosts || mxHosts.length === 0) {
-      // No MX records - might be disposable (many temp services don't have proper MX)
-      return false; // Don't assume disposable without MX records
-    }
-
-    // Check if MX records match known disposable patterns
-    return matchesDisposablePattern(mxHosts);
+    // Domains without MX records aren't assumed to be disposable
+    return (await getDisposableMXMatch(domain)) !== null;
   } catch (error) {
     // DNS lookup failed - can't determine
     return false;
@@ -0,0 +1,93 @@
+/**
+ * Allowlist / denylist rules
+ * Plain entries ("example.com") match the domain and its subdomains,
+ * wildcard entries ("*.example.com") match subdomains only
+ * Rules only match as a suffix: "corp.example" doesn't match "corp.example.evil.xyz",
+ * otherwise anyone controlling a subdomain could get past the allowlist
+ */
+
+import { readFileSync } from 'fs';
+import { WILDCARD_PREFIX } from './trie';
+import { toAsciiDomain } from './idn';
+
+/**
+ * Rule list: an array of entries, or a path to a file with one entry per line
+ * (blank lines and lines starting with # are ignored)
+ */
+export type DomainRuleInput = readonly string[] | string;
+
+/**
+ * Normalize a rule entry to its ASCII form, keeping the wildcard prefix
+ */
+function normalizeEntry(entry: string): string {
+  return entry.startsWith(WILDCARD_PREFIX)
+    ? WILDCARD_PREFIX + toAsciiDomain(entry.slice(WILDCARD_PREFIX.length))
+    : toAsciiDomain(entry);
+}
+
+/**
+ * Read rule entries from an array or a file path
+ */
+function readRuleEntries(input: DomainRuleInput): string[] {
+  const lines = typeof input === 'string' ? readFileSync(input, 'utf-8').split('\n') : input;
+  return lines
+    .map((line) => line.trim().toLowerCase())
+    .filter((line) => line && !line.startsWith('#'))
+    .map(normalizeEntry);
+}
+
+export class DomainRules {
+  private readonly entries: readonly string[];
+  /** Plain entries */
+  private readonly domains = new Set<string>();
+  /** Wildcard entries without their "*." prefix */
+  private readonly wildcards = new Set<string>();
+
+  constructor(input: DomainRuleInput = []) {
+    this.entries = readRuleEntries(input);
+    for (const entry of this.entries) {
+      if (entry.startsWith(WILDCARD_PREFIX)) {
+        this.wildcards.add(entry.slice(WILDCARD_PREFIX.length));
+      } else {
+        this.domains.add(entry);
+      }
+    }
+  }
+
+  /**
+   * Number of rule entries
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Rule entries, normalized to lowercase ASCII (Unicode domains as punycode)
+   */
+  getEntries(): readonly string[] {
+    return this.entries;
+  }
+
+  /**
+   * Find the rule matching a domain or one of its parent domains, the most specific first
+   * @returns The matching entry (e.g. "*.corp-relay.example"), or null
+   */
+  match(domain: string): string | null {
+    if (this.entries.length === 0) {
+      return null;
+    }
+    const normalized = domain.toLowerCase();
+    let suffix = normalized;
+    while (suffix) {
+      if (this.domains.has(suffix)) {
+        return suffix;
+      }
+      if (suffix !== normalized && this.wildcards.has(suffix)) {
+        return WILDCARD_PREFIX + suffix;
+      }
+      const dotIndex = suffix.indexOf('.');
+      suffix = dotIndex === -1 ? '' : suffix.slice(dotIndex + 1);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * RFC 5321/5322 email address parser
+ * Supports dot-atom and quoted local parts, enforces SMTP length limits
+ * and optionally accepts domain literals ("user@[192.0.2.1]")
+ * Internationalized addresses (RFC 6531 SMTPUTF8 local parts, IDN domains) are accepted,
+ * domains are checked in their ASCII (punycode) form
+ * Failures carry a machine-readable error code
+ */
+
+import { isIPv4, isIPv6 } from 'net';
+import { isAscii, toAsciiDomain } from './idn';
+
+export type EmailErrorCode =
+  | 'MISSING_AT_SIGN'
+  | 'MULTIPLE_AT_SIGNS'
+  | 'EMPTY_LOCAL_PART'
+  | 'LOCAL_PART_TOO_LONG'
+  | 'INVALID_LOCAL_PART'
+  | 'CONSECUTIVE_DOTS'
+  | 'INVALID_DOT_POSITION'
+  | 'UNTERMINATED_QUOTED_STRING'
+  | 'INVALID_QUOTED_STRING'
+  | 'EMPTY_DOMAIN'
+  | 'DOMAIN_TOO_LONG'
+  | 'LABEL_TOO_LONG'
+  | 'INVALID_DOMAIN'
+  | 'MISSING_TLD'
+  | 'DOMAIN_LITERAL_NOT_ALLOWED'
+  | 'INVALID_DOMAIN_LITERAL'
+  | 'ADDRESS_TOO_LONG';
+
+export interface EmailParserOptions {
+  /**
+   * Accept domain literals such as "user@[192.0.2.1]" or "user@[IPv6:2001:db8::1]"
+   * Default: false
+   */
+  allowDomainLiterals?: boolean;
+  /**
+   * Accept non-ASCII local parts ("δοκιμή@example.com"), which need an SMTPUTF8-capable server
+   * Default: true
+   */
+  allowSmtpUtf8?: boolean;
+}
+
+export interface ParsedEmail {
+  /** Local part as written (including quotes for quoted local parts) */
+  localPart: string;
+  /** Domain as written (including brackets for domain literals) */
+  domain: string;
+  /** Lowercased ASCII (punycode) domain, used for lookups */
+  asciiDomain: string;
+  isQuoted: boolean;
+  isDomainLiteral: boolean;
+  /** Whether the local part contains non-ASCII characters (requires SMTPUTF8) */
+  isSmtpUtf8: boolean;
+}
+
+export type ParseEmailResult =
+  | { ok: true; email: ParsedEmail }
+  | { ok: false; code: EmailErrorCode; message: string };
+
+/**
+ * SMTP length limits (RFC 5321 section 4.5.3.1)
+ */
+export const MAX_LOCAL_PART_LENGTH = 64;
+export const MAX_DOMAIN_LENGTH = 255;
+export const MAX_LABEL_LENGTH = 63;
+export const MAX_ADDRESS_LENGTH = 254;
+
+/**
+ * Human readable message per error code
+ */
+export const EMAIL_ERROR_MESSAGES: Readonly<Record<EmailErrorCode, string>> = {
+  MISSING_AT_SIGN: 'Invalid email format: missing @ sign',
+  MULTIPLE_AT_SIGNS: 'Invalid email format: more than one @ sign',
+  EMPTY_LOCAL_PART: 'Invalid email format: nothing before the @ sign',
+  LOCAL_PART_TOO_LONG: `Invalid email format: local part exceeds ${MAX_LOCAL_PART_LENGTH} octets`,
+  INVALID_LOCAL_PART: 'Invalid email format: local part contains invalid characters',
+  CONSECUTIVE_DOTS: 'Invalid email format: consecutive dots',
+  INVALID_DOT_POSITION: 'Invalid email format: local part starts or ends with a dot',
+  UNTERMINATED_QUOTED_STRING: 'Invalid email format: unterminated quoted local part',
+  INVALID_QUOTED_STRING: 'Invalid email format: quoted local part contains invalid characters',
+  EMPTY_DOMAIN: 'Invalid email format: nothing after the @ sign',
+  DOMAIN_TOO_LONG: `Invalid email format: domain exceeds ${MAX_DOMAIN_LENGTH} characters`,
+  LABEL_TOO_LONG: `Invalid email format: domain label exceeds ${MAX_LABEL_LENGTH} characters`,
+  INVALID_DOMAIN: 'Invalid email format: domain contains invalid characters or empty labels',
+  MISSING_TLD: 'Invalid email format: domain has no top-level domain',
+  DOMAIN_LITERAL_NOT_ALLOWED: 'Invalid email format: domain literals are not allowed',
+  INVALID_DOMAIN_LITERAL: 'Invalid email format: domain literal is not a valid IP address',
+  ADDRESS_TOO_LONG: `Invalid email format: address exceeds ${MAX_ADDRESS_LENGTH} characters`,
+};
+
+/**
+ * atext characters allowed unquoted in a dot-atom (RFC 5322 section 3.2.3),
+ * plus non-ASCII characters (RFC 6531 section 3.3)
+ */
+const ATEXT_REGEX = /^[A-Za-z0-9!#$%&'*+\-/=?^_`{|}~\u0080-\uffff]+$/;
+
+/**
+ * A single domain label: letters, digits and inner hyphens
+ */
+const LABEL_REGEX = /^[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?$/;
+
+function fail(code: EmailErrorCode): ParseEmailResult {
+  return { ok: false, code, message: EMAIL_ERROR_MESSAGES[code] };
+}
+
+/**
+ * Find the end of a quoted local part starting at index 0
+ * @returns Index of the closing quote, or -1 if unterminated
+ */
+function findClosingQuote(email: string): number {
+  for (let i = 1; i < email.length; i++) {
+    if (email[i] === '\\') {
+      i++;
+    } else if (email[i] === '"') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Validate a quoted local part body (without the surrounding quotes)
+ * Allows printable ASCII, non-ASCII characters and quoted pairs ("\"" and "\\")
+ */
+function isValidQuotedBody(body: string): boolean {
+  for (let i = 0; i < body.length; i++) {
+    const code = body.charCodeAt(i);
+    if (body[i] === '\\') {
+      const next = body.charCodeAt(i + 1);
+      if (!(next >= 0x20 && next !== 0x7f)) {
+        return false;
+      }
+      i++;
+    } else if (body[i] === '"' || code < 0x20 || code === 0x7f) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function checkDotAtomLocalPart(localPart: string): EmailErrorCode | null {
+  if (localPart.startsWith('.') || localPart.endsWith('.')) {
+    return 'INVALID_DOT_POSITION';
+  }
+  if (localPart.includes('..')) {
+    return 'CONSECUTIVE_DOTS';
+  }
+  if (!localPart.split('.').every((atom) => ATEXT_REGEX.test(atom))) {
+    return 'INVALID_LOCAL_PART';
+  }
+  return null;
+}
+
+function checkDomainLiteral(domain: string, options: EmailParserOptions): EmailErrorCode | null {
+  if (!options.allowDomainLiterals) {
+    return 'DOMAIN_LITERAL_NOT_ALLOWED';
+  }
+  const address = domain.slice(1, -1);
+  if (address.toLowerCase().startsWith('ipv6:')) {
+    return isIPv6(address.slice(5)) ? null : 'INVALID_DOMAIN_LITERAL';
+  }
+  return isIPv4(address) ? null : 'INVALID_DOMAIN_LITERAL';
+}
+
+function checkDomain(domain: string): EmailErrorCode | null {
+  if (domain.length > MAX_DOMAIN_LENGTH) {
+    return 'DOMAIN_TOO_LONG';
+  }
+  if (domain.includes('..')) {
+    return 'CONSECUTIVE_DOTS';
+  }
+
+  const labels = domain.split('.');
+  for (const label of labels) {
+    if (label.length > MAX_LABEL_LENGTH) {
+      return 'LABEL_TOO_LONG';
+    }
+    if (!LABEL_REGEX.test(label)) {
+      return 'INVALID_DOMAIN';
+    }
+  }
+
+  // Require a top-level domain that isn't purely numeric
+  if (labels.length < 2 || /^[0-9]+$/.test(labels[labels.length - 1])) {
+    return 'MISSING_TLD';
+  }
+  return null;
+}
+
+/**
+ * Parse and validate an email address
+ * The input is not trimmed: surrounding whitespace makes it invalid
+ * @param email - The address to parse
+ * @param options - Parser options
+ */
+export function parseEmail(email: string, options: EmailParserOptions = {}): ParseEmailResult {
+  let localPart: string;
+  let domain: string;
+  let isQuoted = false;
+
+  if (email.startsWith('"')) {
+    const closingQuote = findClosingQuote(email);
+    if (closingQuote === -1) {
+      return fail('UNTERMINATED_QUOTED_STRING');
+    }
+    if (email[closingQuote + 1] !== '@') {
+      return fail(email.indexOf('@', closingQuote) === -1 ? 'MISSING_AT_SIGN' : 'INVALID_QUOTED_STRING');
+    }
+    isQuoted = true;
+    localPart = email.slice(0, closingQuote + 1);
+    domain = email.slice(closingQuote + 2);
+  } else {
+    const atIndex = email.indexOf('@');
+    if (atIndex === -1) {
+      return fail('MISSING_AT_SIGN');
+    }
+    localPart = email.slice(0, atIndex);
+    domain = email.slice(atIndex + 1);
+  }
+
+  if (domain.includes('@')) {
+    return fail('MULTIPLE_AT_SIGNS');
+  }
+  if (!localPart) {
+    return fail('EMPTY_LOCAL_PART');
+  }
+  if (!domain) {
+    return fail('EMPTY_DOMAIN');
+  }
+  // SMTPUTF8 limits are in octets, not characters
+  if (Buffer.byteLength(localPart, 'utf8') > MAX_LOCAL_PART_LENGTH) {
+    return fail('LOCAL_PART_TOO_LONG');
+  }
+
+  const isSmtpUtf8 = !isAscii(localPart);
+  if (isSmtpUtf8 && options.allowSmtpUtf8 === false) {
+    return fail(isQuoted ? 'INVALID_QUOTED_STRING' : 'INVALID_LOCAL_PART');
+  }
+
+  const localError = isQuoted
+    ? (isValidQuotedBody(localPart.slice(1, -1)) ? null : 'INVALID_QUOTED_STRING')
+    : checkDotAtomLocalPart(localPart);
+  if (localError) {
+    return fail(localError);
+  }
+
+  const isDomainLiteral = domain.startsWith('[') && domain.endsWith(']');
+  const asciiDomain = isDomainLiteral ? domain : toAsciiDomain(domain);
+  if (!asciiDomain) {
+    return fail('INVALID_DOMAIN');
+  }
+  const domainError = isDomainLiteral ? checkDomainLiteral(domain, options) : checkDomain(asciiDomain);
+  if (domainError) {
+    return fail(domainError);
+  }
+
+  if (Buffer.byteLength(localPart, 'utf8') + 1 + asciiDomain.length > MAX_ADDRESS_LENGTH) {
+    return fail('ADDRESS_TOO_LONG');
+  }
+
+  return { ok: true, email: { localPart, domain, asciiDomain, isQuoted, isDomainLiteral, isSmtpUtf8 } };
+}
@@ -0,0 +1,302 @@
+/**
+ * Read-only domain trie in flat typed arrays, for large lists that are built once
+ * Matches like DomainTrie (suffix matching, "*." wildcard entries) at a fraction of the heap:
+ * - every distinct label is stored once in a sorted table, nodes refer to labels by id
+ * - nodes are numbered breadth-first, so the children of a node are contiguous,
+ *   sorted by label id and found by binary search
+ */
+
+import { WILDCARD_PREFIX } from './trie';
+
+/**
+ * Node flags
+ */
+const END = 1;
+const WILDCARD = 2;
+
+/**
+ * First label of a wildcard entry ("*" in "*.relay.example")
+ */
+const WILDCARD_LABEL = WILDCARD_PREFIX.slice(0, -1);
+
+/**
+ * Domains as ids into a sorted label table, the input a FrozenDomainTrie is built from
+ */
+export interface LabelIdList {
+  /** Distinct labels, sorted */
+  labels: readonly string[];
+  /** Label ids of every domain, left to right, one domain after another */
+  ids: Uint32Array;
+  /** Start of each domain in ids, followed by the end of the last one */
+  offsets: Uint32Array;
+}
+
+/**
+ * Find a string in a sorted array
+ * @returns Its index, or -1 if it isn't there
+ */
+function searchLabel(labels: readonly string[], label: string): number {
+  let low = 0;
+  let high = labels.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >>> 1;
+    const candidate = labels[mid];
+    if (candidate === label) {
+      return mid;
+    }
+    if (candidate < label) {
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find a key in a sorted typed array (the key must be present)
+ */
+function searchKey(keys: Float64Array, key: number): number {
+  let low = 0;
+  let high = keys.length - 1;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (keys[mid] < key) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+export class FrozenDomainTrie {
+  private readonly labels: readonly string[];
+  /** Label id of the edge leading to each node (node 0 is the root) */
+  private readonly nodeLabels: Uint32Array;
+  /** The children of node n are nodes firstChild[n] to firstChild[n + 1] - 1 */
+  private readonly firstChild: Uint32Array;
+  private readonly flags: Uint8Array;
+  /** Number of entries */
+  readonly size: number;
+
+  private constructor(labels: readonly string[], nodeLabels: Uint32Array, firstChild: Uint32Array, flags: Uint8Array, size: number) {
+    this.labels = labels;
+    this.nodeLabels = nodeLabels;
+    this.firstChild = firstChild;
+    this.flags = flags;
+    this.size = size;
+  }
+
+  /**
+   * Number of trie nodes, including the root
+   */
+  get nodeCount(): number {
+    return this.flags.length;
+  }
+
+  /**
+   * Check if a domain is an entry itself (no subdomain or wildcard matching)
+   * Domain is normalized to lowercase
+   */
+  has(domain: string): boolean {
+    const parts = domain.toLowerCase().split('.');
+    let node = 0;
+    for (let i = parts.length - 1; i >= 0; i--) {
+      node = this.child(node, parts[i]);
+      if (node === -1) {
+        return false;
+      }
+    }
+    return (this.flags[node] & END) !== 0;
+  }
+
+  /**
+   * Check if domain or any of its suffixes is an entry, like DomainTrie.hasDomain
+   * e.g., "subdomain.tempmail.com" matches "tempmail.com"
+   * Wildcard entries ("*.tempmail.com") match "subdomain.tempmail.com" but not "tempmail.com"
+   * Domain is normalized to lowercase
+   */
+  hasDomain(domain: string): boolean {
+    return this.matchStart(domain.toLowerCase().split('.').reverse()) !== null;
+  }
+
+  /**
+   * Find the entry that makes hasDomain() match, like DomainTrie.findMatch
+   * e.g., with "tempmail.com" listed, "a.b.tempmail.com" returns "tempmail.com"
+   * Domain is normalized to lowercase
+   * @returns The matched entry, or null if there is no match
+   */
+  findMatch(domain: string): string | null {
+    const reversedParts = domain.toLowerCase().split('.').reverse();
+    const match = this.matchStart(reversedParts);
+    if (!match) {
+      return null;
+    }
+    const entry = reversedParts.slice(match.start, match.end + 1).reverse().join('.');
+    return match.wildcard ? WILDCARD_PREFIX + entry : entry;
+  }
+
+  /**
+   * Walk every suffix of a domain (given as reversed labels) from the top-level domain down
+   * @returns Where the first matching entry starts and ends in reversedParts, null if none matches
+   */
+  private matchStart(reversedParts: readonly string[]): { start: number; end: number; wildcard: boolean } | null {
+    const partsLength = reversedParts.length;
+    for (let start = 0; start < partsLength; start++) {
+      let node = 0;
+      for (let i = start; i < partsLength; i++) {
+        node = this.child(node, reversedParts[i]);
+        if (node === -1) {
+          break;
+        }
+        const flags = this.flags[node];
+        if (flags & END) {
+          return { start, end: i, wildcard: false };
+        }
+        if (flags & WILDCARD && i < partsLength - 1) {
+          return { start, end: i, wildcard: true };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the child of a node along a label
+   * @returns The child node, or -1 if there is none
+   */
+  private child(node: number, label: string): number {
+    const labelId = searchLabel(this.labels, label);
+    if (labelId === -1) {
+      return -1;
+    }
+    let low = this.firstChild[node];
+    let high = this.firstChild[node + 1] - 1;
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      const candidate = this.nodeLabels[mid];
+      if (candidate === labelId) {
+        return mid;
+      }
+      if (candidate < labelId) {
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Build a trie from domains (entries starting with "*." are wildcards)
+   * Domains are normalized to lowercase
+   */
+  static fromDomains(domains: readonly string[]): FrozenDomainTrie {
+    const labelIds = new Map<string, number>();
+    const ids: number[] = [];
+    const offsets = new Uint32Array(domains.length + 1);
+    domains.forEach((domain, i) => {
+      offsets[i] = ids.length;
+      for (const label of domain.toLowerCase().split('.')) {
+        let id = labelIds.get(label);
+        if (id === undefined) {
+          id = labelIds.size;
+          labelIds.set(label, id);
+        }
+        ids.push(id);
+      }
+    });
+    offsets[domains.length] = ids.length;
+
+    // Renumber labels in sorted order
+    const labels = Array.from(labelIds.keys()).sort();
+    const sortedIds = new Uint32Array(labels.length);
+    labels.forEach((label, sortedId) => {
+      sortedIds[labelIds.get(label)!] = sortedId;
+    });
+    return FrozenDomainTrie.fromLabelIds({ labels, ids: Uint32Array.from(ids, (id) => sortedIds[id]), offsets });
+  }
+
+  /**
+   * Build a trie from domains given as label ids (e.g. read from a binary snapshot)
+   * A leading "*" label makes the entry a wildcard
+   */
+  static fromLabelIds({ labels, ids, offsets }: LabelIdList): FrozenDomainTrie {
+    const domainCount = offsets.length - 1;
+    const labelCount = Math.max(labels.length, 1);
+    const wildcardId = searchLabel(labels, WILDCARD_LABEL);
+
+    // Labels of each domain that form its path (a wildcard's leading "*" is a flag instead)
+    const first = new Uint32Array(domainCount);
+    let maxDepth = 0;
+    for (let d = 0; d < domainCount; d++) {
+      const isWildcard = ids[offsets[d]] === wildcardId && offsets[d + 1] - offsets[d] > 1;
+      first[d] = offsets[d] + (isWildcard ? 1 : 0);
+      maxDepth = Math.max(maxDepth, offsets[d + 1] - first[d]);
+    }
+
+    // At most one node per label occurrence, plus the root
+    const nodeLabels = new Uint32Array(ids.length + 1);
+    const childCounts = new Uint32Array(ids.length + 1);
+    const flags = new Uint8Array(ids.length + 1);
+    const nodes = new Uint32Array(domainCount);
+    let nodeCount = 1;
+    let size = 0;
+
+    // One level at a time: sorting (parent, label) keys numbers the new nodes so that
+    // the children of each parent are contiguous and ordered by label id
+    for (let depth = 0; depth < maxDepth; depth++) {
+      let active = 0;
+      for (let d = 0; d < domainCount; d++) {
+        if (offsets[d + 1] - first[d] > depth) {
+          active++;
+        }
+      }
+      const keys = new Float64Array(active);
+      let k = 0;
+      for (let d = 0; d < domainCount; d++) {
+        if (offsets[d + 1] - first[d] > depth) {
+          keys[k++] = nodes[d] * labelCount + ids[offsets[d + 1] - 1 - depth];
+        }
+      }
+      keys.sort();
+
+      let unique = 0;
+      for (let i = 0; i < keys.length; i++) {
+        if (i === 0 || keys[i] !== keys[i - 1]) {
+          keys[unique++] = keys[i];
+        }
+      }
+      const levelKeys = keys.subarray(0, unique);
+      const levelStart = nodeCount;
+      for (const key of levelKeys) {
+        const parent = Math.floor(key / labelCount);
+        nodeLabels[nodeCount++] = key - parent * labelCount;
+        childCounts[parent]++;
+      }
+
+      for (let d = 0; d < domainCount; d++) {
+        const length = offsets[d + 1] - first[d];
+        if (length > depth) {
+          const key = nodes[d] * labelCount + ids[offsets[d + 1] - 1 - depth];
+          nodes[d] = levelStart + searchKey(levelKeys, key);
+          if (length === depth + 1) {
+            const flag = first[d] === offsets[d] ? END : WILDCARD;
+            if (!(flags[nodes[d]] & flag)) {
+              flags[nodes[d]] |= flag;
+              size++;
+            }
+          }
+        }
+      }
+    }
+
+    const firstChild = new Uint32Array(nodeCount + 1);
+    firstChild[0] = 1;
+    for (let n = 0; n < nodeCount; n++) {
+      firstChild[n + 1] = firstChild[n] + childCounts[n];
+    }
+    return new FrozenDomainTrie(labels, nodeLabels.slice(0, nodeCount), firstChild, flags.slice(0, nodeCount), size);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Name-based heuristics for disposable domains
+ * Catches unlisted domains whose names give them away (e.g. "my-tempmail-box.xyz")
+ * Used as an optional last stage of the async detection pipeline
+ */
+
+/**
+ * Keywords that strongly suggest a disposable email service
+ * Kept specific to avoid flagging legitimate domains (e.g. "temple.edu")
+ */
+export const DISPOSABLE_DOMAIN_KEYWORDS: readonly string[] = [
+  'tempmail',
+  'temp-mail',
+  'tempinbox',
+  'trashmail',
+  'trash-mail',
+  'throwaway',
+  'disposable',
+  'fakemail',
+  'fake-mail',
+  'fakeinbox',
+  '10minute',
+  'minutemail',
+  'guerrillamail',
+  'spambox',
+  'burnermail',
+  'mailinator',
+  'yopmail',
+  'discardmail',
+];
+
+/**
+ * Find the disposable keyword contained in a domain name
+ * @param domain - Lowercased domain
+ * @returns The matching keyword, or null
+ */
+export function matchDisposableKeyword(domain: string): string | null {
+  if (!domain) {
+    return null;
+  }
+  return DISPOSABLE_DOMAIN_KEYWORDS.find((keyword) => domain.includes(keyword)) || null;
+}
@@ -0,0 +1,91 @@
+/**
+ * Internationalized domain names (IDN)
+ * UTS-46 normalization maps Unicode and punycode ("xn--") forms of a domain
+ * to the same ASCII lookup key, and homoglyph detection flags domains that
+ * imitate ASCII ones with lookalike Cyrillic or Greek letters
+ */
+
+import { domainToASCII, domainToUnicode } from 'url';
+
+const NON_ASCII_REGEX = /[^\x00-\x7f]/;
+
+/**
+ * Cyrillic, Greek and Latin-extended letters that render like ASCII letters
+ */
+const HOMOGLYPHS: Readonly<Record<string, string>> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'ԁ': 'd', 'е': 'e', 'һ': 'h', 'і': 'i', 'ј': 'j', 'к': 'k', 'ӏ': 'l',
+  'о': 'o', 'р': 'p', 'ԛ': 'q', 'ѕ': 's', 'т': 't', 'у': 'y', 'х': 'x', 'ԝ': 'w', 'с': 'c',
+  // Greek
+  'α': 'a', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u',
+  'χ': 'x', 'ϲ': 'c',
+  // Latin extended
+  'ı': 'i', 'ɑ': 'a', 'ɡ': 'g', 'ɩ': 'i', 'ȷ': 'j',
+};
+
+const LATIN_REGEX = /\p{Script=Latin}/u;
+const CYRILLIC_REGEX = /\p{Script=Cyrillic}/u;
+const GREEK_REGEX = /\p{Script=Greek}/u;
+
+/**
+ * Check if a string contains only ASCII characters
+ */
+export function isAscii(value: string): boolean {
+  return !NON_ASCII_REGEX.test(value);
+}
+
+/**
+ * Normalize a domain to its lowercased ASCII (punycode) form using UTS-46
+ * ASCII input is only lowercased (fast path)
+ * @returns The ASCII domain, or an empty string if it can't be converted
+ */
+export function toAsciiDomain(domain: string): string {
+  const lowercased = domain.toLowerCase();
+  if (isAscii(lowercased)) {
+    return lowercased;
+  }
+  return domainToASCII(lowercased);
+}
+
+/**
+ * Convert a domain to its Unicode display form ("xn--bcher-kva.de" -> "bücher.de")
+ * @returns The Unicode domain, or an empty string if it can't be converted
+ */
+export function toUnicodeDomain(domain: string): string {
+  return domainToUnicode(domain.toLowerCase());
+}
+
+/**
+ * Check if a label mixes Latin with Cyrillic/Greek, or is written entirely
+ * in Cyrillic/Greek lookalikes of Latin letters (e.g. "аррӏе")
+ */
+function isConfusableLabel(label: string): boolean {
+  const chars = Array.from(label);
+  const hasLatin = chars.some((char) => LATIN_REGEX.test(char));
+  const foreign = chars.filter((char) => CYRILLIC_REGEX.test(char) || GREEK_REGEX.test(char));
+
+  if (foreign.length === 0) {
+    return false;
+  }
+  if (hasLatin) {
+    return true;
+  }
+  return foreign.every((char) => char in HOMOGLYPHS);
+}
+
+/**
+ * Find the ASCII domain a homoglyph domain imitates
+ * Accented letters alone (e.g. "bücher.de") are not flagged
+ * @param domain - Unicode or punycode domain
+ * @returns The lookalike domain (e.g. "paypal.com" for "pаypal.com" with a Cyrillic а), or null
+ */
+export function detectConfusable(domain: string): string | null {
+  if (!domain) {
+    return null;
+  }
+  const unicode = toUnicodeDomain(domain);
+  if (isAscii(unicode) || !unicode.split('.').some(isConfusableLabel)) {
+    return null;
+  }
+  return Array.from(unicode, (char) => HOMOGLYPHS[char] || char).join('');
+}
@@ -0,0 +1,122 @@
+/**
+ * Least-recently-used cache with optional expiry
+ * Backs the per-guard verdict and suggestion caches
+ */
+
+/**
+ * Cache interface the guard stores verdicts in
+ * Implement it to plug in a different cache (e.g. a shared or instrumented one)
+ */
+export interface ResultCache<V> {
+  /** Get a value, or undefined if it isn't cached (or has expired) */
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+  clear(): void;
+  /** Number of cached entries */
+  readonly size: number;
+}
+
+/**
+ * Why an entry left the cache on its own
+ * - capacity: least recently used entry dropped to make room
+ * - expired: entry outlived its ttl
+ */
+export type EvictionReason = 'capacity' | 'expired';
+
+export interface LRUCacheOptions {
+  /** Max number of entries (0 disables caching) */
+  maxSize: number;
+  /** Time to live per entry in ms (default: no expiry) */
+  ttl?: number;
+  /** Called for every entry evicted for capacity or expiry (not for clear()) */
+  onEvict?: (key: string, reason: EvictionReason) => void;
+}
+
+interface Entry<V> {
+  value: V;
+  /** Expiry time in ms since the epoch, 0 = never */
+  expiresAt: number;
+}
+
+/**
+ * LRU cache on top of Map insertion order: a hit moves the entry to the end,
+ * so the first entry is always the least recently used one
+ */
+export class LRUCache<V> implements ResultCache<V> {
+  private readonly entries = new Map<string, Entry<V>>();
+  private readonly maxSize: number;
+  private readonly ttl: number;
+  private readonly onEvict?: (key: string, reason: EvictionReason) => void;
+
+  constructor(options: LRUCacheOptions) {
+    this.maxSize = Math.max(0, options.maxSize);
+    this.ttl = options.ttl && options.ttl > 0 ? options.ttl : 0;
+    this.onEvict = options.onEvict;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt && entry.expiresAt <= Date.now()) {
+      this.onEvict?.(key, 'expired');
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    if (this.maxSize === 0) {
+      return;
+    }
+    if (!this.entries.delete(key) && this.entries.size >= this.maxSize) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.entries.delete(oldestKey);
+        this.onEvict?.(oldestKey, 'capacity');
+      }
+    }
+    this.entries.set(key, { value, expiresAt: this.ttl ? Date.now() + this.ttl : 0 });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Result cache configuration for a guard
+ */
+export interface CacheOptions {
+  /** Max number of cached domains (default: 1000, 0 disables caching) */
+  maxSize?: number;
+  /** Time to live per cached verdict in ms (default: no expiry, entries are dropped on refresh) */
+  ttl?: number;
+  /**
+   * Cache for disposable verdicts replacing the built-in LRU cache
+   * (maxSize and ttl then only apply to typo suggestions)
+   */
+  store?: ResultCache<boolean>;
+}
+
+/**
+ * Result cache counters since the guard was created or the stats were reset
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Entries dropped for capacity or expiry (only counted for the built-in cache) */
+  evictions: number;
+  /** Number of cached domains */
+  size: number;
+  /** hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
+}
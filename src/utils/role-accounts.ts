@@ -0,0 +1,84 @@
+/**
+ * Role and system mailboxes
+ * Detects local parts like "admin", "postmaster" or "no-reply" that belong to
+ * a function rather than a person, in several languages
+ */
+
+/**
+ * Role account names per locale
+ * Entries are compared without separators, so "noreply" also matches "no-reply" and "no_reply"
+ */
+export const ROLE_ACCOUNTS_BY_LOCALE: Readonly<Record<string, readonly string[]>> = {
+  en: [
+    'abuse', 'accounting', 'accounts', 'admin', 'administrator', 'billing', 'careers', 'contact',
+    'donotreply', 'dev', 'devnull', 'enquiries', 'feedback', 'finance', 'help', 'helpdesk', 'hello',
+    'hostmaster', 'hr', 'info', 'inquiries', 'jobs', 'mailer-daemon', 'marketing', 'news', 'newsletter',
+    'noc', 'noreply', 'notifications', 'office', 'postmaster', 'press', 'privacy', 'root',
+    'sales', 'security', 'service', 'support', 'sysadmin', 'team', 'webmaster',
+  ],
+  de: ['buchhaltung', 'einkauf', 'kontakt', 'personal', 'rechnung', 'verkauf', 'vertrieb', 'keineantwort'],
+  fr: ['compta', 'comptabilite', 'contact', 'facturation', 'nepasrepondre', 'recrutement', 'ventes'],
+  es: ['contacto', 'facturacion', 'noresponder', 'soporte', 'ventas'],
+  it: ['amministrazione', 'assistenza', 'contatti', 'noreply', 'vendite'],
+  pt: ['contato', 'financeiro', 'naoresponda', 'suporte', 'vendas'],
+  nl: ['administratie', 'klantenservice', 'verkoop'],
+};
+
+export interface RoleAccountOptions {
+  /**
+   * Locales whose role names are detected (keys of ROLE_ACCOUNTS_BY_LOCALE)
+   * Default: ['en']
+   */
+  locales?: readonly string[];
+  /** Additional role names (e.g. "trials", "procurement") */
+  accounts?: readonly string[];
+}
+
+/**
+ * Reduce a local part to its comparison key:
+ * lowercase, without quotes, "+tag", separators and trailing digits ("No.Reply+x" -> "noreply", "info2" -> "info")
+ */
+function toRoleKey(localPart: string): string {
+  let key = localPart.toLowerCase();
+  if (key.startsWith('"') && key.endsWith('"')) {
+    key = key.slice(1, -1);
+  }
+  const tagIndex = key.indexOf('+');
+  if (tagIndex > 0) {
+    key = key.slice(0, tagIndex);
+  }
+  return key.replace(/[._-]/g, '').replace(/[0-9]+$/, '');
+}
+
+export class RoleAccounts {
+  private readonly keys = new Map<string, string>();
+
+  constructor(options: RoleAccountOptions = {}) {
+    const locales = options.locales || ['en'];
+    for (const locale of locales) {
+      this.addAll(ROLE_ACCOUNTS_BY_LOCALE[locale] || []);
+    }
+    this.addAll(options.accounts || []);
+  }
+
+  /**
+   * Find the role name a local part matches
+   * @param localPart - Local part of an address (e.g. "no-reply+billing")
+   * @returns The matching role name (e.g. "noreply"), or null
+   */
+  match(localPart: string): string | null {
+    if (!localPart) {
+      return null;
+    }
+    return this.keys.get(toRoleKey(localPart)) || null;
+  }
+
+  private addAll(accounts: readonly string[]): void {
+    for (const account of accounts) {
+      const key = toRoleKey(account.trim());
+      if (key && !this.keys.has(key)) {
+        this.keys.set(key, account.trim().toLowerCase());
+      }
+    }
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Domain typo detection
+ * Suggests the popular provider or TLD an address most likely meant
+ * ("user@gmial.com" -> "user@gmail.com"), based on edit distance
+ * The name and the TLD are compared separately, and short names allow fewer edits,
+ * so real providers like "aim.com" or "gmx.at" aren't mistaken for "aol.com" or "gmx.de"
+ */
+
+export interface SuggestOptions {
+  /** Popular domains to suggest (replaces the defaults) */
+  domains?: readonly string[];
+  /**
+   * Popular TLDs (replaces the defaults), never rewritten
+   * When set, a TLD one edit away from one of them is corrected too (only use TLDs no real TLD is one edit from)
+   */
+  tlds?: readonly string[];
+  /** Mistyped TLDs and their corrections when no domain is close (replaces the defaults) */
+  tldTypos?: Readonly<Record<string, string>>;
+  /** Max edit distance between the typed and the suggested domain (default: 2, short names allow fewer) */
+  maxDistance?: number;
+}
+
+export interface DomainSuggestion {
+  /** Suggested domain (e.g. "gmail.com") */
+  domain: string;
+  /** The address with the suggested domain (e.g. "user@gmail.com") */
+  email: string;
+}
+
+/**
+ * Common mailbox providers
+ */
+export const DEFAULT_SUGGEST_DOMAINS: readonly string[] = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.uk', 'yahoo.fr', 'ymail.com', 'hotmail.com',
+  'hotmail.co.uk', 'hotmail.fr', 'outlook.com', 'live.com', 'msn.com', 'icloud.com', 'me.com', 'mac.com',
+  'aol.com', 'mail.com', 'protonmail.com', 'proton.me', 'gmx.com', 'gmx.de', 'gmx.net', 'web.de',
+  'mail.ru', 'yandex.ru', 'qq.com', '163.com', 'comcast.net', 'verizon.net', 'att.net', 'zoho.com',
+];
+
+/**
+ * Common mistyped TLDs that are not real TLDs
+ * A fixed map rather than edit distance, since most short strings near a TLD are real TLDs (.dev, .ai, .cz)
+ */
+export const DEFAULT_TLD_TYPOS: Readonly<Record<string, string>> = {
+  con: 'com', cmo: 'com', ocm: 'com', comm: 'com', coom: 'com', cpm: 'com', vom: 'com', xom: 'com', cim: 'com', clm: 'com',
+  nte: 'net', nett: 'net', ner: 'net', nrt: 'net', ent: 'net',
+  ogr: 'org', orgg: 'org', prg: 'org', irg: 'org',
+  ukk: 'uk',
+};
+
+/**
+ * Common TLDs
+ */
+export const DEFAULT_SUGGEST_TLDS: readonly string[] = [
+  'com', 'net', 'org', 'edu', 'gov', 'info', 'biz', 'io', 'co', 'me', 'us', 'uk', 'ca', 'de',
+  'fr', 'es', 'it', 'nl', 'be', 'ch', 'at', 'se', 'no', 'dk', 'fi', 'pl', 'ru', 'jp', 'cn', 'in',
+  'br', 'au', 'nz', 'ie',
+];
+
+const DEFAULT_MAX_DISTANCE = 2;
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and
+ * transpositions of adjacent characters ("gmial" -> "gmail" is 1)
+ */
+export function editDistance(a: string, b: string): number {
+  // Only the last three rows are needed
+  let beforePrevious = new Int32Array(b.length + 1);
+  let previous = new Int32Array(b.length + 1);
+  let current = new Int32Array(b.length + 1);
+  for (let j = 0; j <= b.length; j++) {
+    previous[j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a.charCodeAt(i - 1) === b.charCodeAt(j - 2) && a.charCodeAt(i - 2) === b.charCodeAt(j - 1)) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      current[j] = distance;
+    }
+    const recycled = beforePrevious;
+    beforePrevious = previous;
+    previous = current;
+    current = recycled;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Find the closest candidate within a max distance (ties keep the earlier candidate)
+ */
+function findClosest(
+  value: string,
+  candidates: readonly string[],
+  maxDistance: number,
+  isExcluded: (candidate: string) => boolean
+): string | null {
+  let best: string | null = null;
+  let bestDistance = maxDistance + 1;
+  for (const candidate of candidates) {
+    // The distance is at least the length difference, skip the full computation
+    if (Math.abs(value.length - candidate.length) >= bestDistance) {
+      continue;
+    }
+    const distance = editDistance(value, candidate);
+    if (distance < bestDistance && !isExcluded(candidate)) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Split a domain into the name and the TLD ("yahoo.co.uk" -> ["yahoo.co", "uk"])
+ */
+function splitTld(domain: string): [string, string] {
+  const dotIndex = domain.lastIndexOf('.');
+  return dotIndex === -1 ? [domain, ''] : [domain.slice(0, dotIndex), domain.slice(dotIndex + 1)];
+}
+
+/**
+ * Edits allowed in a name of a given length
+ * None up to 3 characters, where any edit gives another real name ("126" -> "163", "aim" -> "aol")
+ */
+function allowedNameDistance(length: number): number {
+  if (length <= 3) {
+    return 0;
+  }
+  return length <= 5 ? 1 : 2;
+}
+
+/**
+ * Find the closest popular domain, comparing the name and the TLD separately
+ * Names may differ by allowedNameDistance, TLDs by one edit (ties keep the earlier candidate)
+ */
+function findClosestDomain(
+  domain: string,
+  candidates: readonly string[],
+  maxDistance: number,
+  isExcluded: (candidate: string) => boolean
+): string | null {
+  const [name, tld] = splitTld(domain);
+  let best: string | null = null;
+  let bestDistance = maxDistance + 1;
+  for (const candidate of candidates) {
+    let distance: number;
+    if (tld) {
+      const [candidateName, candidateTld] = splitTld(candidate);
+      const nameDistance = editDistance(name, candidateName);
+      const tldDistance = editDistance(tld, candidateTld);
+      if (nameDistance > allowedNameDistance(Math.min(name.length, candidateName.length)) || tldDistance > 1) {
+        continue;
+      }
+      distance = nameDistance + tldDistance;
+    } else {
+      // No TLD at all, e.g. a missing dot ("gmailcom")
+      distance = editDistance(domain, candidate);
+      if (distance > allowedNameDistance(Math.min(domain.length, candidate.length))) {
+        continue;
+      }
+    }
+    if (distance < bestDistance && !isExcluded(candidate)) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Suggest the domain a mistyped domain most likely meant
+ * Tries popular domains first, then fixes a known TLD typo ("example.cmo" -> "example.com")
+ * @param domain - Lowercased domain
+ * @param options - Popular domains, TLDs, TLD typos and max distance
+ * @param isExcluded - Domains that must never be suggested (e.g. disposable ones)
+ * @returns The suggested domain, or null if the domain looks fine
+ */
+export function suggestDomainFor(
+  domain: string,
+  options: SuggestOptions = {},
+  isExcluded: (domain: string) => boolean = () => false
+): string | null {
+  const domains = options.domains || DEFAULT_SUGGEST_DOMAINS;
+  const tlds = options.tlds || DEFAULT_SUGGEST_TLDS;
+  const maxDistance = options.maxDistance ?? DEFAULT_MAX_DISTANCE;
+
+  if (!domain || domains.includes(domain)) {
+    return null;
+  }
+
+  const closestDomain = findClosestDomain(domain, domains, maxDistance, isExcluded);
+  if (closestDomain) {
+    return closestDomain;
+  }
+
+  // Keep the name, fix a known TLD typo
+  const [name, tld] = splitTld(domain);
+  if (!name || !tld || tlds.includes(tld)) {
+    return null;
+  }
+  const tldTypos = options.tldTypos || DEFAULT_TLD_TYPOS;
+  const typoFix = Object.prototype.hasOwnProperty.call(tldTypos, tld) ? tldTypos[tld] : undefined;
+  if (typoFix) {
+    return isExcluded(`${name}.${typoFix}`) ? null : `${name}.${typoFix}`;
+  }
+  if (!options.tlds) {
+    return null;
+  }
+  // Configured TLDs are corrected by one edit (TLDs are short)
+  const closestTld = findClosest(tld, tlds, 1, (candidate) => isExcluded(`${name}.${candidate}`));
+  return closestTld ? `${name}.${closestTld}` : null;
+}
@@ -1,13 +1,20 @@
 /**
  * Optimized Trie data structure for fast domain matching
  * Supports reverse domain matching (e.g., com.tempmail.subdomain)
+ * Supports wildcard entries ("*.relay.example") that match subdomains only
  */
 
 interface TrieNode {
   children: Map<string, TrieNode>;
   isEnd: boolean;
+  isWildcard?: boolean;
 }
 
+/**
+ * Prefix marking a wildcard entry
+ */
+export const WILDCARD_PREFIX = '*.';
+
 export class DomainTrie {
   private root: TrieNode;
 
@@ -19,10 +26,15 @@ export class DomainTrie {
    * Insert a domain into the trie
    * Domains are stored in reverse order for efficient suffix matching
    * e.g., "tempmail.com" -> "com.tempmail"
+   * Entries starting with "*." are stored as wildcards (subdomains only)
    * Domains are normalized to lowercase
    */
   insert(domain: string): void {
-    const normalizedDomain = domain.toLowerCase();
+    let normalizedDomain = domain.toLowerCase();
+    const isWildcard = normalizedDomain.startsWith(WILDCARD_PREFIX);
+    if (isWildcard) {
+      normalizedDomain = normalizedDomain.slice(WILDCARD_PREFIX.length);
+    }
     const reversedParts = normalizedDomain.split('.').reverse();
     let node = this.root;
 
@@ -33,7 +45,11 @@ export class DomainTrie {
       node = node.children.get(part)!;
     }
 
-    node.isEnd = true;
+    if (isWildcard) {
+      node.isWildcard = true;
+    } else {
+      node.isEnd = true;
+    }
   }
 
   /**
@@ -46,6 +62,7 @@ export class DomainTrie {
    * - "subdomain.tempmail.com" (full domain)
    * - "tempmail.com" (suffix)
    * - "com" (suffix)
+   * Wildcard entries ("*.tempmail.com") match "subdomain.tempmail.com" but not "tempmail.com"
    * Domain is normalized to lowercase
    */
   hasDomain(domain: string): boolean {
@@ -70,7 +87,7 @@ export class DomainTrie {
         node = childNode;
         
         // Early exit if we found a match
-        if (node.isEnd) {
+        if (node.isEnd || (node.isWildcard && i < partsLength - 1)) {
           return true;
         }
       }
@@ -84,6 +101,39 @@ export class DomainTrie {
     return false;
   }
 
+  /**
+   * Find the listed entry that makes hasDomain() match
+   * e.g., with "tempmail.com" inserted, "a.b.tempmail.com" returns "tempmail.com"
+   * Domain is normalized to lowercase
+   * @returns The matched entry, or null if there is no match
+   */
+  findMatch(domain: string): string | null {
+    const reversedParts = domain.toLowerCase().split('.').reverse();
+    const partsLength = reversedParts.length;
+
+    // Same traversal as hasDomain, remembering where the match started
+    for (let start = 0; start < partsLength; start++) {
+      let node = this.root;
+
+      for (let i = start; i < partsLength; i++) {
+        const childNode = node.children.get(reversedParts[i]);
+        if (!childNode) {
+          break;
+        }
+
+        node = childNode;
+        if (node.isEnd) {
+          return reversedParts.slice(start, i + 1).reverse().join('.');
+        }
+        if (node.isWildcard && i < partsLength - 1) {
+          return WILDCARD_PREFIX + reversedParts.slice(start, i + 1).reverse().join('.');
+        }
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Build trie from array of domains
    */